@@ -0,0 +1,45 @@
+-- 配额预留：任务创建时预留，图片保存后确认，失败/取消时退还
+-- quota_state: none | reserved | committed | released | delegated（批量父任务已拆分给子任务）
+-- quota_date: 预留时所在的配额日（YYYY-MM-DD），跨天后不再退还到新一天的计数
+--
+-- 取消任务会写入 cancelled 状态，而原表的 CHECK 约束不包含它；
+-- SQLite 无法修改 CHECK 约束，重建 tasks 表并同时加入配额预留列
+CREATE TABLE tasks_new (
+  id TEXT PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  type TEXT NOT NULL,
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled')),
+  input_data TEXT NOT NULL,
+  output_data TEXT,
+  error_message TEXT,
+  progress INTEGER DEFAULT 0,
+  created_at INTEGER DEFAULT (unixepoch()),
+  started_at INTEGER,
+  completed_at INTEGER,
+  batch_id TEXT,
+  priority INTEGER DEFAULT 0,
+  quota_units INTEGER DEFAULT 0,
+  quota_state TEXT DEFAULT 'none',
+  quota_date TEXT,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+INSERT INTO tasks_new (
+  id, user_id, type, status, input_data, output_data, error_message, progress, created_at, started_at, completed_at,
+  batch_id, priority
+)
+SELECT
+  id, user_id, type, status, input_data, output_data, error_message, progress, created_at, started_at, completed_at,
+  batch_id, priority
+FROM tasks;
+
+DROP TABLE tasks;
+ALTER TABLE tasks_new RENAME TO tasks;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_user_status ON tasks(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
+CREATE INDEX IF NOT EXISTS idx_tasks_batch ON tasks(batch_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_completed_date ON tasks(date(completed_at, 'unixepoch'));
+CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(status, priority DESC, created_at ASC);
+CREATE INDEX IF NOT EXISTS idx_tasks_status_created ON tasks(status, created_at ASC);
+CREATE INDEX IF NOT EXISTS idx_tasks_quota_state ON tasks(quota_state) WHERE quota_state = 'reserved';
@@ -0,0 +1,35 @@
+-- 积分账本：取代 users.daily_generation_count / last_generation_date
+-- 只追加不修改；余额 = 当前配额日内所有记录的 amount 之和
+--   grant      等级每日发放 / 等级变更补发（正数）
+--   debit      生成扣费（负数，按图片尺寸与产品图角度数加权）
+--   refund     任务失败 / 取消退还（正数）
+--   adjustment 管理员调整（正负均可）
+
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  kind TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  period TEXT NOT NULL,
+  task_id TEXT,
+  reason TEXT,
+  created_by TEXT,
+  created_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_user_period ON credit_ledger(user_id, period);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_user_created ON credit_ledger(user_id, created_at DESC);
+
+-- 每个用户每天只发放一次每日额度
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_daily_grant
+ON credit_ledger(user_id, period) WHERE kind = 'grant' AND reason = 'daily';
+
+-- 每个任务最多退还一次（队列重试时保持幂等）
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_task_refund
+ON credit_ledger(task_id) WHERE kind = 'refund';
+
+-- 迁移当天已用的次数，避免上线当天额度被重置
+INSERT INTO credit_ledger (user_id, kind, amount, period, reason)
+SELECT id, 'debit', -daily_generation_count, last_generation_date, 'migrated'
+FROM users
+WHERE last_generation_date = date('now') AND daily_generation_count > 0;
@@ -0,0 +1,15 @@
+-- 参考图存入 R2（inputs/{sha256}），任务只保存 key，避免 input_data 中的大 base64
+-- 相同内容只存一份；last_used_at 在每次被任务引用时刷新，用于垃圾回收的宽限期
+
+CREATE TABLE IF NOT EXISTS input_images (
+  key TEXT PRIMARY KEY,
+  mime_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  created_at INTEGER DEFAULT (unixepoch()),
+  last_used_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_input_images_last_used ON input_images(last_used_at);
+
+ALTER TABLE tasks ADD COLUMN input_image_key TEXT;
+CREATE INDEX IF NOT EXISTS idx_tasks_input_image_key ON tasks(input_image_key) WHERE input_image_key IS NOT NULL;
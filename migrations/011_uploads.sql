@@ -0,0 +1,15 @@
+-- 参考图上传记录：POST /api/uploads 返回的 upload id 指向 input_images 中按内容去重的文件
+CREATE TABLE IF NOT EXISTS uploads (
+  id TEXT PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  input_key TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  created_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_uploads_user ON uploads(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_uploads_input_key ON uploads(input_key);
+CREATE INDEX IF NOT EXISTS idx_uploads_created ON uploads(created_at);
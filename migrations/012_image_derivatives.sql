@@ -0,0 +1,3 @@
+-- 服务端生成的衍生图：thumbnail_url（400px WebP，已有列）+ medium_url（1200px WebP）
+-- 与原图同目录：generated/{userId}/{imageId}_thumb.webp / _medium.webp
+ALTER TABLE generated_images ADD COLUMN medium_url TEXT;
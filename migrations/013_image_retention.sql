@@ -0,0 +1,23 @@
+-- 按等级执行图片保存期限
+-- retention_grace_until：降级后的宽限期截止时间，期间不删除该用户的图片
+ALTER TABLE users ADD COLUMN retention_grace_until INTEGER;
+
+-- 已发送过期提醒的图片不再重复提醒
+ALTER TABLE generated_images ADD COLUMN expiry_warned_at INTEGER;
+
+-- 清理按 (created_at, id) 游标分块扫描
+CREATE INDEX IF NOT EXISTS idx_images_created_id ON generated_images(created_at, id);
+
+-- 站内通知
+CREATE TABLE IF NOT EXISTS notifications (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  kind TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  data TEXT DEFAULT '{}',
+  read_at INTEGER,
+  created_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
@@ -0,0 +1,2 @@
+-- 任务当前所处的生成阶段（input_loaded / prompt_built / request_sent / image_received / stored / thumbnails_built）
+ALTER TABLE tasks ADD COLUMN stage TEXT;
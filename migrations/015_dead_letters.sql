@@ -0,0 +1,40 @@
+-- 任务重试与死信队列
+-- attempts：已失败的尝试次数；可重试错误重新排队，最后一次失败才标记为 failed
+ALTER TABLE tasks ADD COLUMN attempts INTEGER DEFAULT 0;
+-- 重试退避：在此时间之前不被调度
+ALTER TABLE tasks ADD COLUMN run_after INTEGER;
+
+-- 每次失败的记录（任务级重试，以及队列消息处理异常）
+CREATE TABLE IF NOT EXISTS task_failures (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT NOT NULL,
+  message_id TEXT,
+  attempt INTEGER NOT NULL,
+  error TEXT NOT NULL,
+  created_at INTEGER DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_failures_task ON task_failures(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_failures_message ON task_failures(message_id);
+
+-- 死信：重试耗尽后进入 generation-dlq 的消息
+-- status: 'pending' | 'requeued' | 'discarded'
+CREATE TABLE IF NOT EXISTS dead_letters (
+  id TEXT PRIMARY KEY,
+  message_id TEXT NOT NULL UNIQUE,
+  task_id TEXT,
+  body TEXT NOT NULL,
+  attempts INTEGER NOT NULL,
+  history TEXT DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at INTEGER DEFAULT (unixepoch()),
+  resolved_at INTEGER,
+  resolved_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letters_status ON dead_letters(status, created_at);
+
+-- 重放已失败的任务会重新预留积分，再次失败时需要再次退还：
+-- 退还的幂等改由 tasks.quota_state（reserved -> released 与写入 refund 在同一事务中）保证
+DROP INDEX IF EXISTS idx_credit_ledger_task_refund;
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_task ON credit_ledger(task_id);
@@ -0,0 +1,16 @@
+-- 任务审计时间线：记录每次状态变化、重试、上游调用耗时与错误类型
+CREATE TABLE IF NOT EXISTS task_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT NOT NULL,
+  type TEXT NOT NULL,           -- created / started / progress / retrying / completed / failed / cancelled / upstream_call / message_failed / dead_lettered / requeued
+  status TEXT,                  -- 事件发生后的任务状态
+  attempt INTEGER,
+  latency_ms INTEGER,
+  error_class TEXT,             -- GenerationError.code 或异常类名
+  message TEXT,
+  data TEXT DEFAULT '{}',
+  created_at INTEGER NOT NULL   -- 毫秒时间戳（排查耗时需要毫秒精度）
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_events_task ON task_events(task_id, id);
+CREATE INDEX IF NOT EXISTS idx_task_events_created ON task_events(created_at);
@@ -0,0 +1,5 @@
+-- 手动重试：新任务复制原任务的输入并记录 retry_of，保留原 batch_id
+-- 已被重试的失败任务不再计入批次进度与结果
+ALTER TABLE tasks ADD COLUMN retry_of TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_retry_of ON tasks(retry_of);
@@ -0,0 +1,48 @@
+-- 批次暂停：任务状态新增 paused（暂停批次中尚未开始的任务，不会被调度）
+-- SQLite 无法修改 CHECK 约束，重建 tasks 表
+CREATE TABLE tasks_new (
+  id TEXT PRIMARY KEY,
+  user_id INTEGER NOT NULL,
+  type TEXT NOT NULL,
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'paused', 'processing', 'completed', 'failed', 'cancelled')),
+  input_data TEXT NOT NULL,
+  output_data TEXT,
+  error_message TEXT,
+  progress INTEGER DEFAULT 0,
+  created_at INTEGER DEFAULT (unixepoch()),
+  started_at INTEGER,
+  completed_at INTEGER,
+  batch_id TEXT,
+  priority INTEGER DEFAULT 0,
+  quota_units INTEGER DEFAULT 0,
+  quota_state TEXT DEFAULT 'none',
+  quota_date TEXT,
+  input_image_key TEXT,
+  stage TEXT,
+  attempts INTEGER DEFAULT 0,
+  run_after INTEGER,
+  retry_of TEXT,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+INSERT INTO tasks_new (
+  id, user_id, type, status, input_data, output_data, error_message, progress, created_at, started_at, completed_at,
+  batch_id, priority, quota_units, quota_state, quota_date, input_image_key, stage, attempts, run_after, retry_of
+)
+SELECT
+  id, user_id, type, status, input_data, output_data, error_message, progress, created_at, started_at, completed_at,
+  batch_id, priority, quota_units, quota_state, quota_date, input_image_key, stage, attempts, run_after, retry_of
+FROM tasks;
+
+DROP TABLE tasks;
+ALTER TABLE tasks_new RENAME TO tasks;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_user_status ON tasks(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
+CREATE INDEX IF NOT EXISTS idx_tasks_batch ON tasks(batch_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_completed_date ON tasks(date(completed_at, 'unixepoch'));
+CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(status, priority DESC, created_at ASC);
+CREATE INDEX IF NOT EXISTS idx_tasks_status_created ON tasks(status, created_at ASC);
+CREATE INDEX IF NOT EXISTS idx_tasks_quota_state ON tasks(quota_state) WHERE quota_state = 'reserved';
+CREATE INDEX IF NOT EXISTS idx_tasks_input_image_key ON tasks(input_image_key) WHERE input_image_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_retry_of ON tasks(retry_of);
@@ -0,0 +1,14 @@
+-- 幂等键：客户端通过 Idempotency-Key 重试创建任务 / 支付请求时，返回首次请求保存的响应
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,     -- SHA-256(method + path + body)，同一个键不能用于不同请求
+  status TEXT NOT NULL DEFAULT 'in_progress', -- in_progress / completed
+  response_status INTEGER,
+  response_body TEXT,
+  created_at INTEGER DEFAULT (unixepoch()),
+  expires_at INTEGER NOT NULL,
+  PRIMARY KEY (user_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
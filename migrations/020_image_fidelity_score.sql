@@ -0,0 +1,5 @@
+-- 还原度质检：从 config.fidelity.overall 提取综合分，便于筛选低质量图片（未质检的图片为 NULL）
+ALTER TABLE generated_images ADD COLUMN fidelity_score INTEGER
+  GENERATED ALWAYS AS (json_extract(config, '$.fidelity.overall')) VIRTUAL;
+
+CREATE INDEX IF NOT EXISTS idx_generated_images_fidelity ON generated_images(fidelity_score, created_at);
@@ -87,7 +87,7 @@ export async function verifyPassword(password: string, storedHash: string): Prom
 /**
  * 时间安全的字符串比较
  */
-function timingSafeEqual(a: string, b: string): boolean {
+export function timingSafeEqual(a: string, b: string): boolean {
   if (a.length !== b.length) return false;
 
   let result = 0;
@@ -0,0 +1,26 @@
+/**
+ * 积分计价
+ *
+ * 每张图片按输出尺寸加权扣费，产品图按角度数计费。
+ */
+
+// 各输出尺寸的积分权重
+export const IMAGE_SIZE_CREDITS: Record<string, number> = {
+  '1K': 1,
+  '2K': 2,
+  '4K': 4
+};
+
+/**
+ * 单张图片的积分消耗
+ */
+export function imageCreditCost(imageSize?: string | null): number {
+  return IMAGE_SIZE_CREDITS[imageSize || '1K'] ?? 1;
+}
+
+/**
+ * 多张图片（批量 / 产品图多角度）的积分消耗
+ */
+export function batchCreditCost(count: number, imageSize?: string | null): number {
+  return count * imageCreditCost(imageSize);
+}
@@ -32,11 +32,14 @@ function getCdnUrl(path: string | null): string | null {
 
 /**
  * 生成 Cloudflare Image Resizing URL
+ * 已有服务端生成的衍生图时直接使用，不再按需缩放
  * @param path R2 路径 (如 /r2/assets/xxx.png)
  * @param width 图片宽度
  * @param quality 图片质量
+ * @param derivative 对应尺寸的衍生图路径
  */
-function getResizedImageUrl(path: string | null, width = 400, quality = 75): string | null {
+function getResizedImageUrl(path: string | null, width = 400, quality = 75, derivative?: string | null): string | null {
+  if (derivative) return derivative;
   if (!path) return null;
   // 从 /r2/xxx 中提取实际路径
   const key = path.startsWith('/r2/') ? path.slice(4) : path;
@@ -252,68 +255,67 @@ export const userDb = {
 
   // ========== 等级与配额相关 ==========
 
-  // 获取用户配额信息
+  // 获取用户配额信息（基于积分账本）
   getQuota: async (db: D1Database, userId: number): Promise<UserQuota | null> => {
-    const row = await db.prepare(`
-      SELECT tier, daily_generation_count, last_generation_date FROM users WHERE id = ?
-    `).bind(userId).first();
-
+    const row = await db.prepare('SELECT tier FROM users WHERE id = ?').bind(userId).first();
     if (!row) return null;
 
     const tier = (row.tier as UserTier) || 'free';
     const config = TIER_CONFIGS[tier];
-    const today = new Date().toISOString().slice(0, 10);
-    const lastDate = row.last_generation_date as string | null;
+    const today = creditDb.today();
+
+    // 懒发放当日额度
+    await creditDb.ensureDailyGrant(db, userId, tier, today);
+    const summary = await creditDb.getPeriodSummary(db, userId, today);
 
-    // 如果是新的一天，重置计数
-    const dailyUsed = lastDate === today ? (row.daily_generation_count as number) || 0 : 0;
-    const remaining = config.dailyLimit === -1 ? -1 : Math.max(0, config.dailyLimit - dailyUsed);
+    const remaining = config.dailyLimit === -1 ? -1 : Math.max(0, summary.balance);
 
     return {
       tier,
-      dailyUsed,
+      dailyUsed: summary.used,
       dailyLimit: config.dailyLimit,
       remaining,
-      features: config.features
+      balance: config.dailyLimit === -1 ? -1 : summary.balance,
+      features: config.features,
+      generation: config.generation
     };
   },
 
-  // 检查并消费配额（返回是否成功）
-  consumeQuota: async (db: D1Database, userId: number, count: number = 1): Promise<{ success: boolean; error?: string }> => {
+  /**
+   * 检查并扣除积分（返回是否成功）
+   * 余额检查与扣费在同一条 SQL 中完成，并发请求不会透支；返回的 quotaDate 用于在任务上记录预留
+   */
+  consumeQuota: async (
+    db: D1Database,
+    userId: number,
+    count: number = 1,
+    taskId: string | null = null
+  ): Promise<{ success: boolean; error?: string; quotaDate?: string }> => {
     const quota = await userDb.getQuota(db, userId);
     if (!quota) return { success: false, error: '用户不存在' };
 
-    // 无限制用户直接通过
+    const today = creditDb.today();
+
+    // 无限制用户直接记账
     if (quota.dailyLimit === -1) {
-      const today = new Date().toISOString().slice(0, 10);
-      await db.prepare(`
-        UPDATE users SET daily_generation_count = daily_generation_count + ?, last_generation_date = ?
-        WHERE id = ?
-      `).bind(count, today, userId).run();
-      return { success: true };
+      await creditDb.append(db, { userId, kind: 'debit', amount: -count, period: today, taskId, reason: 'generation' });
+      return { success: true, quotaDate: today };
     }
 
-    // 检查配额
-    if (quota.remaining < count) {
+    const result = await db.prepare(`
+      INSERT INTO credit_ledger (user_id, kind, amount, period, task_id, reason)
+      SELECT ?1, 'debit', -?2, ?3, ?4, 'generation'
+      WHERE (SELECT COALESCE(SUM(amount), 0) FROM credit_ledger WHERE user_id = ?1 AND period = ?3) >= ?2
+    `).bind(userId, count, today, taskId).run();
+
+    if (result.meta.changes === 0) {
       return {
         success: false,
-        error: `今日生成次数已达上限（${quota.dailyLimit}次），请明天再试或升级会员`
+        error: `今日积分不足（剩余 ${quota.remaining}，需要 ${count}），请明天再试或升级会员`
       };
     }
 
-    // 消费配额
-    const today = new Date().toISOString().slice(0, 10);
-    await db.prepare(`
-      UPDATE users SET
-        daily_generation_count = CASE
-          WHEN last_generation_date = ? THEN daily_generation_count + ?
-          ELSE ?
-        END,
-        last_generation_date = ?
-      WHERE id = ?
-    `).bind(today, count, count, today, userId).run();
-
-    return { success: true };
+    return { success: true, quotaDate: today };
   },
 
   // 更新用户等级
@@ -367,6 +369,152 @@ export const userDb = {
       WHERE stripe_customer_id = ?
     `).bind(stripeCustomerId).run();
     return result.meta.changes > 0;
+  },
+
+  // 设置降级后的图片保留宽限期
+  setRetentionGrace: async (db: D1Database, userId: number, graceUntil: number | null): Promise<void> => {
+    await db.prepare('UPDATE users SET retention_grace_until = ? WHERE id = ?').bind(graceUntil, userId).run();
+  }
+};
+
+// ========== 站内通知 ==========
+export interface Notification {
+  id: number;
+  kind: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  read: boolean;
+  timestamp: number;
+}
+
+export const notificationDb = {
+  create: async (
+    db: D1Database,
+    userId: number,
+    kind: string,
+    title: string,
+    message: string,
+    data: Record<string, unknown> = {}
+  ): Promise<void> => {
+    await db.prepare(`
+      INSERT INTO notifications (user_id, kind, title, message, data) VALUES (?, ?, ?, ?, ?)
+    `).bind(userId, kind, title, message, JSON.stringify(data)).run();
+  },
+
+  getByUserId: async (db: D1Database, userId: number, limit: number = 20): Promise<Notification[]> => {
+    const { results } = await db.prepare(`
+      SELECT * FROM notifications WHERE user_id = ? ORDER BY created_at DESC, id DESC LIMIT ?
+    `).bind(userId, limit).all();
+
+    return results.map((row: any) => ({
+      id: row.id,
+      kind: row.kind,
+      title: row.title,
+      message: row.message,
+      data: safeJsonParse<Record<string, unknown>>(row.data, {}),
+      read: row.read_at !== null,
+      timestamp: row.created_at * 1000
+    }));
+  },
+
+  markRead: async (db: D1Database, userId: number, id: number): Promise<boolean> => {
+    const result = await db.prepare(`
+      UPDATE notifications SET read_at = unixepoch() WHERE id = ? AND user_id = ? AND read_at IS NULL
+    `).bind(id, userId).run();
+    return result.meta.changes > 0;
+  }
+};
+
+// ========== 积分账本 ==========
+export type CreditKind = 'grant' | 'debit' | 'refund' | 'adjustment';
+
+export interface CreditTransaction {
+  id: number;
+  kind: CreditKind;
+  amount: number;
+  period: string;
+  taskId: string | null;
+  reason: string | null;
+  createdBy: string | null;
+  timestamp: number;
+}
+
+export const creditDb = {
+  // 当前配额日（UTC）
+  today: (): string => new Date().toISOString().slice(0, 10),
+
+  append: async (
+    db: D1Database,
+    entry: { userId: number; kind: CreditKind; amount: number; period: string; taskId?: string | null; reason?: string | null; createdBy?: string | null }
+  ): Promise<number> => {
+    const result = await db.prepare(`
+      INSERT INTO credit_ledger (user_id, kind, amount, period, task_id, reason, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      entry.userId, entry.kind, entry.amount, entry.period,
+      entry.taskId || null, entry.reason || null, entry.createdBy || null
+    ).run();
+    return result.meta.last_row_id as number;
+  },
+
+  // 发放当日额度（重复调用由唯一索引去重）
+  ensureDailyGrant: async (db: D1Database, userId: number, tier: UserTier, period: string): Promise<void> => {
+    const dailyLimit = TIER_CONFIGS[tier].dailyLimit;
+    if (dailyLimit === -1) return;
+    await db.prepare(`
+      INSERT OR IGNORE INTO credit_ledger (user_id, kind, amount, period, reason)
+      VALUES (?, 'grant', ?, ?, 'daily')
+    `).bind(userId, dailyLimit, period).run();
+  },
+
+  // 等级变更（续费 / 升级）时补发当日差额
+  grantTierChange: async (db: D1Database, userId: number, oldTier: UserTier, newTier: UserTier): Promise<number> => {
+    const oldLimit = TIER_CONFIGS[oldTier].dailyLimit;
+    const newLimit = TIER_CONFIGS[newTier].dailyLimit;
+    // 无限制等级不需要发放；降级不扣回当日已发放额度
+    if (newLimit === -1 || oldLimit === -1 || newLimit <= oldLimit) return 0;
+
+    const period = creditDb.today();
+    const granted = await db.prepare(`
+      SELECT 1 FROM credit_ledger WHERE user_id = ? AND period = ? AND kind = 'grant' AND reason = 'daily'
+    `).bind(userId, period).first();
+    // 今日尚未发放时，下次查询会按新等级发放完整额度
+    if (!granted) return 0;
+
+    const amount = newLimit - oldLimit;
+    await creditDb.append(db, { userId, kind: 'grant', amount, period, reason: 'tier_change' });
+    return amount;
+  },
+
+  getPeriodSummary: async (db: D1Database, userId: number, period: string): Promise<{ balance: number; used: number }> => {
+    const row = await db.prepare(`
+      SELECT
+        COALESCE(SUM(amount), 0) as balance,
+        COALESCE(SUM(CASE WHEN kind IN ('debit', 'refund') THEN -amount ELSE 0 END), 0) as used
+      FROM credit_ledger WHERE user_id = ? AND period = ?
+    `).bind(userId, period).first();
+    return {
+      balance: (row?.balance as number) || 0,
+      used: Math.max(0, (row?.used as number) || 0)
+    };
+  },
+
+  getTransactions: async (db: D1Database, userId: number, limit: number = 20): Promise<CreditTransaction[]> => {
+    const { results } = await db.prepare(`
+      SELECT * FROM credit_ledger WHERE user_id = ? ORDER BY created_at DESC, id DESC LIMIT ?
+    `).bind(userId, limit).all();
+
+    return results.map((row: any) => ({
+      id: row.id,
+      kind: row.kind,
+      amount: row.amount,
+      period: row.period,
+      taskId: row.task_id,
+      reason: row.reason,
+      createdBy: row.created_by,
+      timestamp: row.created_at * 1000
+    }));
   }
 };
 
@@ -433,12 +581,13 @@ export interface CursorPaginatedResult<T> {
 export const imageDb = {
   save: async (db: D1Database, image: Partial<GeneratedImage>, userId: number | null, parentImageId?: string) => {
     await db.prepare(`
-      INSERT INTO generated_images (id, url, thumbnail_url, type, config, user_id, prompt, parent_image_id)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO generated_images (id, url, thumbnail_url, medium_url, type, config, user_id, prompt, parent_image_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       image.id,
       image.url,
       image.thumbnailUrl || null,
+      image.mediumUrl || null,
       image.type,
       JSON.stringify(image.config || {}),
       userId,
@@ -467,22 +616,22 @@ export const imageDb = {
     if (userId === null) {
       // 管理员查看所有 - 优化：列表页只查询必要字段
       if (cursor) {
-        query = `SELECT id, url, thumbnail_url, type, user_id, is_public, created_at 
+        query = `SELECT id, url, thumbnail_url, medium_url, type, user_id, is_public, created_at 
                  FROM generated_images WHERE created_at < ? ORDER BY created_at DESC LIMIT ?`;
         params = [cursor, limit + 1];
       } else {
-        query = `SELECT id, url, thumbnail_url, type, user_id, is_public, created_at 
+        query = `SELECT id, url, thumbnail_url, medium_url, type, user_id, is_public, created_at 
                  FROM generated_images ORDER BY created_at DESC LIMIT ?`;
         params = [limit + 1];
       }
     } else {
       // 普通用户查看自己的 - 优化：列表页只查询必要字段
       if (cursor) {
-        query = `SELECT id, url, thumbnail_url, type, user_id, is_public, created_at 
+        query = `SELECT id, url, thumbnail_url, medium_url, type, user_id, is_public, created_at 
                  FROM generated_images WHERE user_id = ? AND created_at < ? ORDER BY created_at DESC LIMIT ?`;
         params = [userId, cursor, limit + 1];
       } else {
-        query = `SELECT id, url, thumbnail_url, type, user_id, is_public, created_at 
+        query = `SELECT id, url, thumbnail_url, medium_url, type, user_id, is_public, created_at 
                  FROM generated_images WHERE user_id = ? ORDER BY created_at DESC LIMIT ?`;
         params = [userId, limit + 1];
       }
@@ -494,7 +643,9 @@ export const imageDb = {
     const data = (hasMore ? results.slice(0, limit) : results).map((row: any) => ({
       id: row.id,
       url: row.url,
+      // 私有图片不走 CDN 缩放，没有衍生图时由客户端使用原图
       thumbnailUrl: row.thumbnail_url,
+      mediumUrl: row.medium_url,
       type: row.type,
       // config 和 prompt 在列表页不需要，设为 null
       config: null,
@@ -512,6 +663,48 @@ export const imageDb = {
     return { data, nextCursor, hasMore };
   },
 
+  /**
+   * 获取还原度质检低于分数线的图片（游标分页，未质检的图片不返回）
+   * @param cursor - 上一页最后一条记录的 created_at（Unix timestamp，秒）
+   */
+  getLowFidelity: async (
+    db: D1Database,
+    maxScore: number,
+    options: { cursor?: string; limit?: number } = {}
+  ): Promise<CursorPaginatedResult<GeneratedImage & { fidelity: Record<string, unknown> | null }>> => {
+    const limit = options.limit || 50;
+    const cursor = options.cursor ? parseInt(options.cursor, 10) : null;
+
+    const { results } = await db.prepare(`
+      SELECT id, url, thumbnail_url, medium_url, type, user_id, is_public, created_at,
+             json_extract(config, '$.fidelity') AS fidelity
+      FROM generated_images
+      WHERE fidelity_score < ?1 AND (?2 IS NULL OR created_at < ?2)
+      ORDER BY created_at DESC LIMIT ?3
+    `).bind(maxScore, cursor, limit + 1).all();
+
+    const hasMore = results.length > limit;
+    const data = (hasMore ? results.slice(0, limit) : results).map((row: any) => ({
+      id: row.id,
+      url: row.url,
+      thumbnailUrl: row.thumbnail_url,
+      mediumUrl: row.medium_url,
+      type: row.type,
+      config: null,
+      prompt: null,
+      userId: row.user_id,
+      isPublic: row.is_public === 1,
+      timestamp: row.created_at * 1000,
+      fidelity: row.fidelity ? JSON.parse(row.fidelity) : null
+    }));
+
+    const nextCursor = hasMore && data.length > 0
+      ? String(Math.floor(data[data.length - 1].timestamp / 1000))
+      : null;
+
+    return { data, nextCursor, hasMore };
+  },
+
   getById: async (db: D1Database, imageId: string) => {
     const row = await db.prepare('SELECT * FROM generated_images WHERE id = ?').bind(imageId).first();
     if (!row) return null;
@@ -520,6 +713,7 @@ export const imageDb = {
       id: row.id as string,
       url: row.url as string,
       thumbnailUrl: row.thumbnail_url as string | null,
+      mediumUrl: row.medium_url as string | null,
       type: row.type as string,
       config: row.config ? JSON.parse(row.config as string) : null,
       prompt: row.prompt as string | null,
@@ -558,7 +752,7 @@ export const imageDb = {
     // 优化：列表页只查询必要字段，不查询 config/prompt 等大字段
     if (cursor) {
       query = `
-        SELECT gi.id, gi.url, gi.thumbnail_url, gi.type, gi.user_id, gi.is_public, gi.created_at, u.username 
+        SELECT gi.id, gi.url, gi.thumbnail_url, gi.medium_url, gi.type, gi.user_id, gi.is_public, gi.created_at, u.username 
         FROM generated_images gi
         LEFT JOIN users u ON gi.user_id = u.id
         WHERE gi.is_public = 1 AND gi.created_at < ?
@@ -567,7 +761,7 @@ export const imageDb = {
       params = [cursor, limit + 1];
     } else {
       query = `
-        SELECT gi.id, gi.url, gi.thumbnail_url, gi.type, gi.user_id, gi.is_public, gi.created_at, u.username 
+        SELECT gi.id, gi.url, gi.thumbnail_url, gi.medium_url, gi.type, gi.user_id, gi.is_public, gi.created_at, u.username 
         FROM generated_images gi
         LEFT JOIN users u ON gi.user_id = u.id
         WHERE gi.is_public = 1
@@ -582,7 +776,9 @@ export const imageDb = {
     const data = (hasMore ? results.slice(0, limit) : results).map((row: any) => ({
       id: row.id,
       url: row.url,
-      thumbnailUrl: row.thumbnail_url,
+      // 公开图片：优先使用衍生图，旧图片回退到 CDN 按需缩放
+      thumbnailUrl: getResizedImageUrl(row.url, 400, 75, row.thumbnail_url),
+      mediumUrl: getResizedImageUrl(row.url, 1200, 82, row.medium_url),
       type: row.type,
       // config 和 prompt 在列表页不需要
       config: null,
@@ -638,6 +834,7 @@ export const imageDb = {
       id: row.id,
       url: row.url,
       thumbnailUrl: row.thumbnail_url,
+      mediumUrl: row.medium_url,
       type: row.type,
       config: row.config ? JSON.parse(row.config) : null,
       prompt: row.prompt,
@@ -840,7 +1037,201 @@ export const feedbackDb = {
   }
 };
 
+// ========== 参考图操作 ==========
+export const inputImageDb = {
+  // 记录参考图（已存在则刷新 last_used_at，延后垃圾回收）
+  touch: async (db: D1Database, key: string, mimeType: string, size: number): Promise<void> => {
+    await db.prepare(`
+      INSERT INTO input_images (key, mime_type, size) VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET last_used_at = unixepoch()
+    `).bind(key, mimeType, size).run();
+  }
+};
+
+// ========== 上传记录操作 ==========
+export interface Upload {
+  id: string;
+  userId: number;
+  inputKey: string;
+  mimeType: string;
+  size: number;
+  width: number;
+  height: number;
+  createdAt: number;
+}
+
+export const uploadDb = {
+  create: async (db: D1Database, upload: Omit<Upload, 'createdAt'>): Promise<void> => {
+    await db.prepare(`
+      INSERT INTO uploads (id, user_id, input_key, mime_type, size, width, height)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      upload.id, upload.userId, upload.inputKey, upload.mimeType,
+      upload.size, upload.width, upload.height
+    ).run();
+  },
+
+  // 只返回属于该用户的上传
+  getById: async (db: D1Database, id: string, userId: number): Promise<Upload | null> => {
+    const row: any = await db.prepare('SELECT * FROM uploads WHERE id = ? AND user_id = ?').bind(id, userId).first();
+    if (!row) return null;
+    return {
+      id: row.id,
+      userId: row.user_id,
+      inputKey: row.input_key,
+      mimeType: row.mime_type,
+      size: row.size,
+      width: row.width,
+      height: row.height,
+      createdAt: row.created_at * 1000
+    };
+  },
+
+  // 删除过期上传记录（文件由参考图垃圾回收统一清理）
+  cleanup: async (db: D1Database, daysToKeep: number = 7): Promise<number> => {
+    const cutoff = Math.floor(Date.now() / 1000) - (daysToKeep * 24 * 60 * 60);
+    const result = await db.prepare('DELETE FROM uploads WHERE created_at < ?').bind(cutoff).run();
+    return result.meta.changes;
+  }
+};
+
+// ========== 幂等键 ==========
+
+export interface IdempotencyRecord {
+  requestHash: string;
+  status: 'in_progress' | 'completed';
+  responseStatus: number | null;
+  responseBody: string | null;
+  createdAt: number;
+}
+
+export const idempotencyDb = {
+  /**
+   * 占用幂等键：清理过期或处理超时的旧记录后插入
+   * @returns 成功占用返回 null，否则返回已有记录
+   */
+  begin: async (
+    db: D1Database,
+    userId: number,
+    key: string,
+    requestHash: string,
+    ttlSeconds: number,
+    lockSeconds: number
+  ): Promise<IdempotencyRecord | null> => {
+    const now = Math.floor(Date.now() / 1000);
+    const [, inserted] = await db.batch([
+      db.prepare(`
+        DELETE FROM idempotency_keys WHERE user_id = ? AND key = ?
+          AND (expires_at <= ? OR (status = 'in_progress' AND created_at <= ?))
+      `).bind(userId, key, now, now - lockSeconds),
+      db.prepare(`
+        INSERT OR IGNORE INTO idempotency_keys (user_id, key, request_hash, status, created_at, expires_at)
+        VALUES (?, ?, ?, 'in_progress', ?, ?)
+      `).bind(userId, key, requestHash, now, now + ttlSeconds)
+    ]);
+    if (inserted.meta.changes > 0) return null;
+
+    const row: any = await db.prepare(`
+      SELECT * FROM idempotency_keys WHERE user_id = ? AND key = ?
+    `).bind(userId, key).first();
+    // 并发删除后不存在：视为已占用中，由客户端稍后重试
+    if (!row) {
+      return { requestHash, status: 'in_progress', responseStatus: null, responseBody: null, createdAt: now * 1000 };
+    }
+    return {
+      requestHash: row.request_hash,
+      status: row.status,
+      responseStatus: row.response_status ?? null,
+      responseBody: row.response_body ?? null,
+      createdAt: row.created_at * 1000
+    };
+  },
+
+  // 保存首次请求的响应，之后的重放直接返回
+  complete: async (db: D1Database, userId: number, key: string, status: number, body: string): Promise<void> => {
+    await db.prepare(`
+      UPDATE idempotency_keys SET status = 'completed', response_status = ?, response_body = ?
+      WHERE user_id = ? AND key = ?
+    `).bind(status, body, userId, key).run();
+  },
+
+  // 请求失败（5xx）时释放，允许客户端用同一个键重试
+  release: async (db: D1Database, userId: number, key: string): Promise<void> => {
+    await db.prepare(`
+      DELETE FROM idempotency_keys WHERE user_id = ? AND key = ? AND status = 'in_progress'
+    `).bind(userId, key).run();
+  },
+
+  cleanup: async (db: D1Database): Promise<number> => {
+    const now = Math.floor(Date.now() / 1000);
+    const result = await db.prepare('DELETE FROM idempotency_keys WHERE expires_at <= ?').bind(now).run();
+    return result.meta.changes;
+  }
+};
+
 // ========== 任务队列操作 ==========
+
+// 防饿死：排队每满该秒数，有效优先级 +1（免费任务等待 10 分钟后与新提交的 Ultra 任务同级）
+const PRIORITY_AGING_SECONDS = 60;
+
+// 任务优先级取自用户当前等级（TierConfig.priority）
+const TASK_PRIORITY_SQL = `COALESCE((SELECT CASE tier ${(Object.keys(TIER_CONFIGS) as UserTier[])
+  .map(tier => `WHEN '${tier}' THEN ${TIER_CONFIGS[tier].priority}`)
+  .join(' ')} ELSE 0 END FROM users WHERE id = ?), 0)`;
+
+// 有效优先级 = 等级优先级 + 排队时长加成（?1 为当前时间）
+const EFFECTIVE_PRIORITY_SQL = `(priority + (?1 - created_at) / ${PRIORITY_AGING_SECONDS})`;
+
+// 批次内未被重试取代的任务（?1 为 batch_id）
+const NOT_SUPERSEDED_SQL = `id NOT IN (SELECT retry_of FROM tasks WHERE batch_id = ?1 AND retry_of IS NOT NULL)`;
+
+// 新建待处理任务的 INSERT 语句（create 与 createBatchMembers 共用）
+function insertTaskStatement(
+  db: D1Database,
+  taskId: string,
+  userId: number,
+  type: string,
+  inputData: Record<string, unknown>,
+  now: number,
+  batchId?: string,
+  quota?: { units: number; date: string }
+): D1PreparedStatement {
+  const quotaUnits = quota?.units || 0;
+  return db.prepare(`
+    INSERT INTO tasks (id, user_id, type, input_data, status, progress, batch_id, created_at, quota_units, quota_state, quota_date, input_image_key, priority)
+    VALUES (?, ?, ?, ?, 'pending', 0, ?, ?, ?, ?, ?, ?, ${TASK_PRIORITY_SQL})
+  `).bind(
+    taskId, userId, type, JSON.stringify(inputData), batchId || null, now,
+    quotaUnits, quotaUnits > 0 ? 'reserved' : 'none', quota?.date || null,
+    (inputData.inputImageKey as string) || null, userId
+  );
+}
+
+// 刚创建的任务对象（与写入的行一致，避免再查询一次）
+function newTask(
+  taskId: string,
+  userId: number,
+  type: string,
+  inputData: Record<string, unknown>,
+  now: number,
+  batchId?: string
+): Task {
+  return {
+    id: taskId,
+    userId,
+    type: type as 'generate' | 'batch' | 'product_shot',
+    status: 'pending',
+    progress: 0,
+    inputData,
+    outputData: null,
+    errorMessage: null,
+    batchId: batchId || null,
+    createdAt: now * 1000,
+    startedAt: null,
+    completedAt: null
+  };
+}
+
 export const taskDb = {
   create: async (
     db: D1Database,
@@ -848,34 +1239,78 @@ export const taskDb = {
     userId: number,
     type: string,
     inputData: Record<string, unknown>,
-    batchId?: string
+    batchId?: string,
+    quota?: { units: number; date: string }
   ): Promise<Task> => {
     const now = Math.floor(Date.now() / 1000);
+    await insertTaskStatement(db, taskId, userId, type, inputData, now, batchId, quota).run();
+    return newTask(taskId, userId, type, inputData, now, batchId);
+  },
+
+  /**
+   * 批量创建批次成员（均为 generate 任务）
+   * 带 quota 时在同一事务中把父任务的预留标记为 delegated，由子任务各自确认或退还；
+   * 任一语句失败时整批回滚，父任务的预留保持不变
+   */
+  createBatchMembers: async (
+    db: D1Database,
+    parentId: string,
+    batchId: string,
+    userId: number,
+    inputs: Record<string, unknown>[],
+    quota?: { units: number; date: string }
+  ): Promise<Task[]> => {
+    const now = Math.floor(Date.now() / 1000);
+    const ids = inputs.map(() => crypto.randomUUID());
+    const statements = inputs.map((input, i) =>
+      insertTaskStatement(db, ids[i], userId, 'generate', input, now, batchId, quota)
+    );
+    if (quota) {
+      statements.push(db.prepare(`
+        UPDATE tasks SET quota_state = 'delegated' WHERE id = ? AND quota_state = 'reserved'
+      `).bind(parentId));
+    }
+    await db.batch(statements);
+
+    return inputs.map((input, i) => newTask(ids[i], userId, 'generate', input, now, batchId));
+  },
+
+  /**
+   * 以失败任务为模板创建重试任务：复制存储的输入、类型与 batch_id，记录 retry_of
+   */
+  createRetry: async (
+    db: D1Database,
+    taskId: string,
+    original: Task,
+    quota?: { units: number; date: string }
+  ): Promise<Task | null> => {
+    const now = Math.floor(Date.now() / 1000);
+    const quotaUnits = quota?.units || 0;
     await db.prepare(`
-      INSERT INTO tasks (id, user_id, type, input_data, status, progress, batch_id, created_at)
-      VALUES (?, ?, ?, ?, 'pending', 0, ?, ?)
-    `).bind(taskId, userId, type, JSON.stringify(inputData), batchId || null, now).run();
+      INSERT INTO tasks (id, user_id, type, input_data, status, progress, batch_id, created_at, quota_units, quota_state, quota_date, input_image_key, priority, retry_of)
+      SELECT ?, user_id, type, input_data, 'pending', 0, batch_id, ?, ?, ?, ?, input_image_key, ${TASK_PRIORITY_SQL}, id
+      FROM tasks WHERE id = ?
+    `).bind(
+      taskId, now, quotaUnits, quotaUnits > 0 ? 'reserved' : 'none', quota?.date || null,
+      original.userId, original.id
+    ).run();
 
-    return {
-      id: taskId,
-      userId,
-      type: type as 'generate' | 'batch' | 'product_shot',
-      status: 'pending',
-      progress: 0,
-      inputData,
-      outputData: null,
-      errorMessage: null,
-      batchId: batchId || null,
-      createdAt: now * 1000,
-      startedAt: null,
-      completedAt: null
-    };
+    return taskDb.getById(db, taskId);
+  },
+
+  // 任务已有的重试（每个失败任务只能重试一次）
+  getRetryId: async (db: D1Database, taskId: string): Promise<string | null> => {
+    const row = await db.prepare('SELECT id FROM tasks WHERE retry_of = ? LIMIT 1').bind(taskId).first();
+    return (row?.id as string) || null;
   },
 
+  // 按有效优先级排序的待处理任务
   getPending: async (db: D1Database, limit: number = 10) => {
+    const now = Math.floor(Date.now() / 1000);
     const { results } = await db.prepare(`
-      SELECT * FROM tasks WHERE status = 'pending' ORDER BY created_at ASC LIMIT ?
-    `).bind(limit).all();
+      SELECT * FROM tasks WHERE status = 'pending' AND (run_after IS NULL OR run_after <= ?1)
+      ORDER BY ${EFFECTIVE_PRIORITY_SQL} DESC, created_at ASC LIMIT ?2
+    `).bind(now, limit).all();
 
     return results.map((row: any) => ({
       id: row.id,
@@ -887,6 +1322,41 @@ export const taskDb = {
     }));
   },
 
+  /**
+   * 原子地认领有效优先级最高的待处理任务（标记为 processing）
+   * @returns 任务 ID；没有待处理任务时返回 null
+   */
+  claimNext: async (db: D1Database): Promise<string | null> => {
+    const now = Math.floor(Date.now() / 1000);
+    const row = await db.prepare(`
+      UPDATE tasks SET status = 'processing', started_at = ?1, progress = 10
+      WHERE id = (
+        SELECT id FROM tasks WHERE status = 'pending' AND (run_after IS NULL OR run_after <= ?1)
+        ORDER BY ${EFFECTIVE_PRIORITY_SQL} DESC, created_at ASC LIMIT 1
+      ) AND status = 'pending'
+      RETURNING id
+    `).bind(now).first();
+    return (row?.id as string) || null;
+  },
+
+  /**
+   * 任务在优先级队列中的位置（1 = 下一个被处理）
+   */
+  getQueuePosition: async (db: D1Database, taskId: string): Promise<number> => {
+    const now = Math.floor(Date.now() / 1000);
+    const row = await db.prepare(`
+      SELECT COUNT(*) as ahead FROM tasks t, (
+        SELECT ${EFFECTIVE_PRIORITY_SQL} as effective, created_at FROM tasks WHERE id = ?2
+      ) me
+      WHERE t.status = 'pending' AND t.id != ?2
+        AND (
+          (t.priority + (?1 - t.created_at) / ${PRIORITY_AGING_SECONDS}) > me.effective
+          OR ((t.priority + (?1 - t.created_at) / ${PRIORITY_AGING_SECONDS}) = me.effective AND t.created_at <= me.created_at)
+        )
+    `).bind(now, taskId).first();
+    return ((row?.ahead as number) || 0) + 1;
+  },
+
   startProcessing: async (db: D1Database, taskId: string): Promise<boolean> => {
     const now = Math.floor(Date.now() / 1000);
     const result = await db.prepare(`
@@ -896,21 +1366,73 @@ export const taskDb = {
     return result.meta.changes > 0;
   },
 
-  updateProgress: async (db: D1Database, taskId: string, progress: number): Promise<boolean> => {
-    const result = await db.prepare('UPDATE tasks SET progress = ? WHERE id = ?')
-      .bind(progress, taskId).run();
+  // 只更新处理中的任务，且进度不回退
+  updateProgress: async (db: D1Database, taskId: string, progress: number, stage?: string): Promise<boolean> => {
+    const result = await db.prepare(`
+      UPDATE tasks SET progress = ?, stage = COALESCE(?, stage)
+      WHERE id = ? AND status = 'processing' AND progress < ?
+    `).bind(progress, stage ?? null, taskId, progress).run();
     return result.meta.changes > 0;
   },
 
+  // 只完成处理中的任务（已取消或已被重置的任务不会被覆盖）
   complete: async (db: D1Database, taskId: string, outputData: Record<string, unknown>): Promise<boolean> => {
     const now = Math.floor(Date.now() / 1000);
     const result = await db.prepare(`
       UPDATE tasks SET status = 'completed', output_data = ?, completed_at = ?, progress = 100
-      WHERE id = ?
+      WHERE id = ? AND status = 'processing'
     `).bind(JSON.stringify(outputData), now, taskId).run();
     return result.meta.changes > 0;
   },
 
+  /**
+   * 记录一次失败的尝试（attempts + 1）
+   * @returns 累计失败次数
+   */
+  recordAttemptFailure: async (db: D1Database, taskId: string, error: string): Promise<number> => {
+    const [updated] = await db.batch([
+      db.prepare('UPDATE tasks SET attempts = COALESCE(attempts, 0) + 1 WHERE id = ? RETURNING attempts').bind(taskId),
+      db.prepare(`
+        INSERT INTO task_failures (task_id, attempt, error)
+        SELECT id, attempts, ? FROM tasks WHERE id = ?
+      `).bind(error, taskId)
+    ]);
+    return ((updated.results[0] as any)?.attempts as number) || 0;
+  },
+
+  // 可重试的失败：放回待处理状态，delaySeconds 后才会被重新调度（所在批次已暂停时改为 paused）
+  retryLater: async (db: D1Database, taskId: string, delaySeconds: number): Promise<boolean> => {
+    const runAfter = Math.floor(Date.now() / 1000) + delaySeconds;
+    const result = await db.prepare(`
+      UPDATE tasks SET
+        status = CASE WHEN EXISTS (
+          SELECT 1 FROM tasks s WHERE s.batch_id = tasks.batch_id AND s.status = 'paused'
+        ) THEN 'paused' ELSE 'pending' END,
+        started_at = NULL, progress = 0, stage = NULL, run_after = ?
+      WHERE id = ? AND status = 'processing'
+    `).bind(runAfter, taskId).run();
+    return result.meta.changes > 0;
+  },
+
+  // 重新打开已失败的任务（死信重放），尝试次数清零；quotaDate 为重新扣费的配额日，预留恢复为 reserved
+  reopen: async (db: D1Database, taskId: string, quotaDate?: string): Promise<boolean> => {
+    const result = await db.prepare(`
+      UPDATE tasks SET status = 'pending', error_message = NULL, started_at = NULL, completed_at = NULL,
+        progress = 0, stage = NULL, attempts = 0, run_after = NULL,
+        quota_state = CASE WHEN ?1 IS NOT NULL THEN 'reserved' ELSE quota_state END,
+        quota_date = COALESCE(?1, quota_date)
+      WHERE id = ?2 AND status = 'failed'
+    `).bind(quotaDate ?? null, taskId).run();
+    return result.meta.changes > 0;
+  },
+
+  getFailures: async (db: D1Database, taskId: string): Promise<TaskFailure[]> => {
+    const { results } = await db.prepare(`
+      SELECT * FROM task_failures WHERE task_id = ? ORDER BY created_at ASC, id ASC
+    `).bind(taskId).all();
+    return results.map(mapTaskFailure);
+  },
+
   fail: async (db: D1Database, taskId: string, errorMessage: string): Promise<boolean> => {
     const now = Math.floor(Date.now() / 1000);
     const result = await db.prepare(`
@@ -929,6 +1451,9 @@ export const taskDb = {
       type: row.type as 'generate' | 'batch' | 'product_shot',
       status: row.status as Task['status'],
       progress: row.progress as number,
+      stage: (row.stage as string) || null,
+      attempts: (row.attempts as number) || 0,
+      retryOf: (row.retry_of as string) || null,
       inputData: JSON.parse(row.input_data as string),
       outputData: row.output_data ? JSON.parse(row.output_data as string) : null,
       errorMessage: row.error_message as string | null,
@@ -969,6 +1494,7 @@ export const taskDb = {
       type: row.type,
       status: row.status,
       progress: row.progress,
+      stage: row.stage || null,
       inputData: JSON.parse(row.input_data),
       batchId: row.batch_id || null,
       createdAt: row.created_at * 1000,
@@ -976,9 +1502,10 @@ export const taskDb = {
     }));
   },
 
+  // 批次内的任务（已被重试取代的失败任务不计入）
   getByBatchId: async (db: D1Database, batchId: string): Promise<Task[]> => {
     const { results } = await db.prepare(`
-      SELECT * FROM tasks WHERE batch_id = ? ORDER BY created_at ASC
+      SELECT * FROM tasks WHERE batch_id = ?1 AND ${NOT_SUPERSEDED_SQL} ORDER BY created_at ASC
     `).bind(batchId).all();
 
     return results.map((row: any) => ({
@@ -987,6 +1514,7 @@ export const taskDb = {
       type: row.type as 'generate' | 'batch' | 'product_shot',
       status: row.status as Task['status'],
       progress: row.progress,
+      stage: row.stage || null,
       inputData: JSON.parse(row.input_data),
       outputData: row.output_data ? JSON.parse(row.output_data) : null,
       errorMessage: row.error_message,
@@ -1004,16 +1532,23 @@ export const taskDb = {
         SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed,
         SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
         SUM(CASE WHEN status = 'processing' THEN 1 ELSE 0 END) as processing,
-        SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending
-      FROM tasks WHERE batch_id = ?
+        SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending,
+        SUM(CASE WHEN status = 'paused' THEN 1 ELSE 0 END) as paused,
+        SUM(CASE WHEN status = 'cancelled' THEN 1 ELSE 0 END) as cancelled,
+        SUM(CASE WHEN status IN ('completed', 'failed', 'cancelled') THEN 100 ELSE progress END) as progress_sum
+      FROM tasks WHERE batch_id = ?1 AND ${NOT_SUPERSEDED_SQL}
     `).bind(batchId).first();
 
+    const total = (row?.total as number) || 0;
     return {
-      total: (row?.total as number) || 0,
+      total,
       completed: (row?.completed as number) || 0,
       failed: (row?.failed as number) || 0,
       processing: (row?.processing as number) || 0,
-      pending: (row?.pending as number) || 0
+      pending: (row?.pending as number) || 0,
+      paused: (row?.paused as number) || 0,
+      cancelled: (row?.cancelled as number) || 0,
+      percent: total > 0 ? Math.round(((row?.progress_sum as number) || 0) / total) : 0
     };
   },
 
@@ -1043,16 +1578,34 @@ export const taskDb = {
     return result.meta.changes;
   },
 
+  // 重置处理超时的任务；所在批次已暂停时改为 paused，与 retryLater 一致
   resetStuckTasks: async (db: D1Database): Promise<number> => {
     const cutoff = Math.floor(Date.now() / 1000) - (10 * 60); // 10 分钟
     const result = await db.prepare(`
-      UPDATE tasks SET status = 'pending', started_at = NULL, progress = 0
+      UPDATE tasks SET
+        status = CASE WHEN EXISTS (
+          SELECT 1 FROM tasks s WHERE s.batch_id = tasks.batch_id AND s.status = 'paused'
+        ) THEN 'paused' ELSE 'pending' END,
+        started_at = NULL, progress = 0, stage = NULL
       WHERE status = 'processing' AND started_at < ?
     `).bind(cutoff).run();
     return result.meta.changes;
   },
 
-  // 取消任务（只能取消 pending 状态的任务）
+  /**
+   * 可执行后等待超过 10 分钟仍未被认领的任务（队列信号已丢失或消息进入了死信队列）
+   */
+  getStalePending: async (db: D1Database, limit: number = 50): Promise<Array<Pick<Task, 'id' | 'type'>>> => {
+    const cutoff = Math.floor(Date.now() / 1000) - (10 * 60);
+    const { results } = await db.prepare(`
+      SELECT id, type FROM tasks
+      WHERE status = 'pending' AND COALESCE(run_after, created_at) < ?
+      ORDER BY created_at ASC LIMIT ?
+    `).bind(cutoff, limit).all();
+    return results as Array<Pick<Task, 'id' | 'type'>>;
+  },
+
+  // 取消任务（只能取消尚未开始的 pending / paused 任务）
   cancel: async (db: D1Database, taskId: string, userId: number): Promise<{ success: boolean; message: string }> => {
     // 先检查任务是否存在且属于该用户
     const task = await db.prepare(`
@@ -1075,15 +1628,92 @@ export const taskDb = {
       return { success: false, message: '任务已失败' };
     }
 
-    // 取消任务（标记为 cancelled 状态）
+    // 取消任务（标记为 cancelled 状态）；条件更新，避免与认领任务的并发请求竞争
     const now = Math.floor(Date.now() / 1000);
-    await db.prepare(`
-      UPDATE tasks SET status = 'cancelled', completed_at = ? WHERE id = ?
+    const result = await db.prepare(`
+      UPDATE tasks SET status = 'cancelled', completed_at = ? WHERE id = ? AND status IN ('pending', 'paused')
     `).bind(now, taskId).run();
 
+    if (result.meta.changes === 0) {
+      return { success: false, message: task.status === 'cancelled' ? '任务已取消' : '任务正在处理中，无法取消' };
+    }
+
     return { success: true, message: '任务已取消' };
   },
 
+  // ========== 批次控制 ==========
+  // 只影响尚未开始的成员（pending / paused），处理中的任务照常完成
+
+  // 暂停批次：待处理的成员标记为 paused，不再被调度
+  pauseBatch: async (db: D1Database, batchId: string): Promise<string[]> => {
+    const { results } = await db.prepare(`
+      UPDATE tasks SET status = 'paused' WHERE batch_id = ? AND status = 'pending'
+      RETURNING id
+    `).bind(batchId).all();
+    return results.map((row: any) => row.id as string);
+  },
+
+  // 恢复批次：已暂停的成员放回待处理
+  resumeBatch: async (db: D1Database, batchId: string): Promise<string[]> => {
+    const { results } = await db.prepare(`
+      UPDATE tasks SET status = 'pending' WHERE batch_id = ? AND status = 'paused'
+      RETURNING id
+    `).bind(batchId).all();
+    return results.map((row: any) => row.id as string);
+  },
+
+  // 取消批次：未开始的成员标记为 cancelled（预留配额由调用方退还）
+  cancelBatch: async (db: D1Database, batchId: string): Promise<string[]> => {
+    const now = Math.floor(Date.now() / 1000);
+    const { results } = await db.prepare(`
+      UPDATE tasks SET status = 'cancelled', completed_at = ? WHERE batch_id = ? AND status IN ('pending', 'paused')
+      RETURNING id
+    `).bind(now, batchId).all();
+    return results.map((row: any) => row.id as string);
+  },
+
+  // ========== 配额预留 ==========
+
+  // 获取任务的配额预留信息
+  getQuotaReservation: async (db: D1Database, taskId: string) => {
+    const row = await db.prepare(`
+      SELECT quota_units, quota_state, quota_date FROM tasks WHERE id = ?
+    `).bind(taskId).first();
+    if (!row) return null;
+    return {
+      units: (row.quota_units as number) || 0,
+      state: (row.quota_state as string) || 'none',
+      date: row.quota_date as string | null
+    };
+  },
+
+  // 图片保存成功后确认扣费
+  commitQuota: async (db: D1Database, taskId: string): Promise<boolean> => {
+    const result = await db.prepare(`
+      UPDATE tasks SET quota_state = 'committed' WHERE id = ? AND quota_state = 'reserved'
+    `).bind(taskId).run();
+    return result.meta.changes > 0;
+  },
+
+  /**
+   * 退还预留的积分（失败 / 取消）
+   * 只对 reserved 状态生效：在同一事务中写入 refund 记录并标记 released，
+   * 重复调用（如队列重试）不会重复退还。
+   */
+  releaseQuota: async (db: D1Database, taskId: string): Promise<boolean> => {
+    const [, marked] = await db.batch([
+      db.prepare(`
+        INSERT INTO credit_ledger (user_id, kind, amount, period, task_id, reason)
+        SELECT user_id, 'refund', quota_units, quota_date, id, 'task_' || status
+        FROM tasks WHERE id = ? AND quota_state = 'reserved' AND quota_units > 0 AND quota_date IS NOT NULL
+      `).bind(taskId),
+      db.prepare(`
+        UPDATE tasks SET quota_state = 'released' WHERE id = ? AND quota_state = 'reserved'
+      `).bind(taskId)
+    ]);
+    return marked.meta.changes > 0;
+  },
+
   // 获取用户的已完成任务
   getCompletedTasks: async (db: D1Database, userId: number, limit: number = 50) => {
     const { results } = await db.prepare(`
@@ -1106,6 +1736,184 @@ export const taskDb = {
   }
 };
 
+// ========== 任务审计时间线 ==========
+export interface TaskEventRecord {
+  id: number;
+  type: string;
+  status: string | null;
+  attempt: number | null;
+  latencyMs: number | null;
+  errorClass: string | null;
+  message: string | null;
+  data: Record<string, unknown>;
+  timestamp: number;
+}
+
+export const taskEventDb = {
+  record: async (
+    db: D1Database,
+    taskId: string,
+    type: string,
+    fields: {
+      status?: string | null;
+      attempt?: number | null;
+      latencyMs?: number | null;
+      errorClass?: string | null;
+      message?: string | null;
+      data?: Record<string, unknown>;
+    } = {}
+  ): Promise<void> => {
+    await db.prepare(`
+      INSERT INTO task_events (task_id, type, status, attempt, latency_ms, error_class, message, data, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      taskId, type, fields.status ?? null, fields.attempt ?? null, fields.latencyMs ?? null,
+      fields.errorClass ?? null, fields.message ?? null, JSON.stringify(fields.data || {}), Date.now()
+    ).run();
+  },
+
+  getByTaskId: async (db: D1Database, taskId: string): Promise<TaskEventRecord[]> => {
+    const { results } = await db.prepare(`
+      SELECT * FROM task_events WHERE task_id = ? ORDER BY id ASC
+    `).bind(taskId).all();
+
+    return results.map((row: any) => ({
+      id: row.id,
+      type: row.type,
+      status: row.status || null,
+      attempt: row.attempt ?? null,
+      latencyMs: row.latency_ms ?? null,
+      errorClass: row.error_class || null,
+      message: row.message || null,
+      data: safeJsonParse<Record<string, unknown>>(row.data, {}),
+      timestamp: row.created_at
+    }));
+  },
+
+  cleanup: async (db: D1Database, daysToKeep: number = 30): Promise<number> => {
+    const cutoff = Date.now() - daysToKeep * 24 * 60 * 60 * 1000;
+    const result = await db.prepare('DELETE FROM task_events WHERE created_at < ?').bind(cutoff).run();
+    return result.meta.changes;
+  }
+};
+
+// ========== 死信队列 ==========
+export interface TaskFailure {
+  taskId: string;
+  messageId: string | null;
+  attempt: number;
+  error: string;
+  timestamp: number;
+}
+
+export type DeadLetterStatus = 'pending' | 'requeued' | 'discarded';
+
+export interface DeadLetter {
+  id: string;
+  messageId: string;
+  taskId: string | null;
+  body: Record<string, unknown>;
+  attempts: number;
+  history: TaskFailure[];
+  status: DeadLetterStatus;
+  createdAt: number;
+  resolvedAt: number | null;
+  resolvedBy: string | null;
+}
+
+function mapTaskFailure(row: any): TaskFailure {
+  return {
+    taskId: row.task_id,
+    messageId: row.message_id || null,
+    attempt: row.attempt,
+    error: row.error,
+    timestamp: row.created_at * 1000
+  };
+}
+
+function mapDeadLetter(row: any): DeadLetter {
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    taskId: row.task_id || null,
+    body: safeJsonParse<Record<string, unknown>>(row.body, {}),
+    attempts: row.attempts,
+    history: safeJsonParse<TaskFailure[]>(row.history, []),
+    status: row.status,
+    createdAt: row.created_at * 1000,
+    resolvedAt: row.resolved_at ? row.resolved_at * 1000 : null,
+    resolvedBy: row.resolved_by || null
+  };
+}
+
+export const deadLetterDb = {
+  // 队列消息处理异常（不计入任务尝试次数）
+  recordMessageFailure: async (
+    db: D1Database,
+    messageId: string,
+    taskId: string,
+    attempt: number,
+    error: string
+  ): Promise<void> => {
+    await db.prepare(`
+      INSERT INTO task_failures (task_id, message_id, attempt, error) VALUES (?, ?, ?, ?)
+    `).bind(taskId, messageId, attempt, error).run();
+  },
+
+  /**
+   * 记录进入死信队列的消息，附带该消息与任务的全部失败记录（同一消息重复投递时忽略）
+   */
+  record: async (
+    db: D1Database,
+    messageId: string,
+    taskId: string | null,
+    body: unknown,
+    attempts: number
+  ): Promise<void> => {
+    const { results } = await db.prepare(`
+      SELECT * FROM task_failures WHERE message_id = ?1 OR task_id = ?2 ORDER BY created_at ASC, id ASC
+    `).bind(messageId, taskId).all();
+
+    await db.prepare(`
+      INSERT OR IGNORE INTO dead_letters (id, message_id, task_id, body, attempts, history)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(
+      crypto.randomUUID(), messageId, taskId, JSON.stringify(body), attempts,
+      JSON.stringify(results.map(mapTaskFailure))
+    ).run();
+  },
+
+  list: async (db: D1Database, status: DeadLetterStatus | null, limit: number = 50): Promise<DeadLetter[]> => {
+    const { results } = status
+      ? await db.prepare(`
+          SELECT * FROM dead_letters WHERE status = ? ORDER BY created_at DESC LIMIT ?
+        `).bind(status, limit).all()
+      : await db.prepare(`
+          SELECT * FROM dead_letters ORDER BY created_at DESC LIMIT ?
+        `).bind(limit).all();
+    return results.map(mapDeadLetter);
+  },
+
+  getById: async (db: D1Database, id: string): Promise<DeadLetter | null> => {
+    const row = await db.prepare('SELECT * FROM dead_letters WHERE id = ?').bind(id).first();
+    return row ? mapDeadLetter(row) : null;
+  },
+
+  // 只能处理一次（pending -> requeued / discarded）
+  resolve: async (
+    db: D1Database,
+    id: string,
+    status: Exclude<DeadLetterStatus, 'pending'>,
+    resolvedBy: string
+  ): Promise<boolean> => {
+    const result = await db.prepare(`
+      UPDATE dead_letters SET status = ?, resolved_at = unixepoch(), resolved_by = ?
+      WHERE id = ? AND status = 'pending'
+    `).bind(status, resolvedBy, id).run();
+    return result.meta.changes > 0;
+  }
+};
+
 // ========== 统计数据 ==========
 export const statsDb = {
   // 获取总用户数
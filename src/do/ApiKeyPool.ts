@@ -0,0 +1,274 @@
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from '../types';
+
+// 429 后的默认冷却时间（上游给出 Retry-After 时以其为准）
+const QUOTA_COOLDOWN_MS = 60_000;
+// 401/403（key 失效或无权限）的冷却时间
+const AUTH_COOLDOWN_MS = 30 * 60_000;
+// least_used 策略统计用量的时间窗口
+const USAGE_WINDOW_MS = 60_000;
+
+export type KeySelectionStrategy = 'round_robin' | 'least_used';
+export type KeyFailureKind = 'quota' | 'auth';
+
+interface PooledKey {
+    key: string;
+    label: string;
+    source: 'env' | 'admin';   // env 中配置的 key 只能禁用，不能删除
+    disabled: boolean;
+    cooldownUntil: number | null;
+    lastError: string | null;
+    requests: number;
+    failures: number;
+    lastUsedAt: number | null;
+    createdAt: number;
+}
+
+// 对外展示的 key 信息（不含 key 本身）
+export interface ApiKeyInfo {
+    id: string;
+    label: string;
+    hint: string;              // key 末 4 位
+    source: 'env' | 'admin';
+    status: 'active' | 'cooling_down' | 'disabled';
+    cooldownUntil: number | null;
+    lastError: string | null;
+    requests: number;
+    failures: number;
+    recentRequests: number;    // 最近一分钟的请求数
+    lastUsedAt: number | null;
+    createdAt: number;
+}
+
+export type KeyLease =
+    | { id: string; key: string }
+    | { id: null; retryAfterMs: number };
+
+/**
+ * ApiKeyPool Durable Object
+ *
+ * Single instance holding every Gemini API key: the secrets from GEMINI_API_KEY / GEMINI_API_KEYS
+ * plus keys added by admins. Each upstream request leases a key (round robin or least used),
+ * and reports back; keys that hit 429 or 401/403 are cooled down so traffic moves to the others.
+ * Key material never leaves this object except through /acquire.
+ */
+export class ApiKeyPool extends DurableObject<Env> {
+    private keys: Map<string, PooledKey> | null = null;
+    private cursor = 0;
+    // 最近一分钟每个 key 的请求时间
+    private recent = new Map<string, number[]>();
+
+    constructor(state: DurableObjectState, env: Env) {
+        super(state, env);
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+        const [, resource, id, action] = url.pathname.split('/');
+
+        if (request.method === "POST" && resource === "acquire") {
+            const { strategy } = await request.json() as { strategy?: KeySelectionStrategy };
+            return Response.json(await this.acquire(strategy || 'least_used'));
+        }
+
+        if (request.method === "POST" && resource === "report") {
+            const report = await request.json() as {
+                id: string; success: boolean; kind?: KeyFailureKind; retryAfterMs?: number | null; reason?: string
+            };
+            await this.report(report);
+            return Response.json({ success: true });
+        }
+
+        if (resource === "keys") {
+            if (request.method === "GET" && !id) {
+                return Response.json(await this.list());
+            }
+            if (request.method === "POST" && !id) {
+                const { key, label } = await request.json() as { key: string; label?: string };
+                return Response.json(await this.add(key, label));
+            }
+            if (request.method === "POST" && id && (action === "disable" || action === "enable")) {
+                const info = await this.setDisabled(id, action === "disable");
+                return info ? Response.json(info) : new Response("Not found", { status: 404 });
+            }
+            if (request.method === "DELETE" && id) {
+                const result = await this.remove(id);
+                return Response.json(result, { status: result.success ? 200 : 400 });
+            }
+        }
+
+        return new Response("Not found", { status: 404 });
+    }
+
+    private async load(): Promise<Map<string, PooledKey>> {
+        if (!this.keys) {
+            const stored = await this.ctx.storage.get<Record<string, PooledKey>>('keys');
+            this.keys = new Map(Object.entries(stored || {}));
+            await this.syncEnvKeys();
+        }
+        return this.keys;
+    }
+
+    private async save(): Promise<void> {
+        await this.ctx.storage.put('keys', Object.fromEntries(this.keys!));
+    }
+
+    /**
+     * 同步 env 中配置的 key：新增的加入池，已从 secret 中移除的一并移除
+     */
+    private async syncEnvKeys(): Promise<void> {
+        const envKeys = [this.env.GEMINI_API_KEY, ...(this.env.GEMINI_API_KEYS || '').split(',')]
+            .map(k => k?.trim())
+            .filter((k): k is string => !!k);
+
+        const keys = this.keys!;
+        let changed = false;
+        for (const [id, entry] of keys) {
+            if (entry.source === 'env' && !envKeys.includes(entry.key)) {
+                keys.delete(id);
+                changed = true;
+            }
+        }
+        for (const [index, key] of envKeys.entries()) {
+            if ([...keys.values()].some(entry => entry.key === key)) continue;
+            keys.set(crypto.randomUUID(), newKey(key, `env-${index + 1}`, 'env'));
+            changed = true;
+        }
+        if (changed) {
+            await this.save();
+        }
+    }
+
+    private async acquire(strategy: KeySelectionStrategy): Promise<KeyLease> {
+        const keys = [...(await this.load()).entries()];
+        const now = Date.now();
+
+        const available = keys.filter(([, k]) => !k.disabled && (k.cooldownUntil === null || k.cooldownUntil <= now));
+        if (available.length === 0) {
+            // 全部在冷却中：返回最早恢复的时间
+            const cooling = keys
+                .filter(([, k]) => !k.disabled && k.cooldownUntil !== null)
+                .map(([, k]) => k.cooldownUntil! - now);
+            return { id: null, retryAfterMs: cooling.length > 0 ? Math.max(0, Math.min(...cooling)) : 0 };
+        }
+
+        let chosen: [string, PooledKey];
+        if (strategy === 'round_robin') {
+            chosen = available[this.cursor % available.length];
+            this.cursor = (this.cursor + 1) % available.length;
+        } else {
+            chosen = available.reduce((best, candidate) =>
+                this.recentCount(candidate[0], now) < this.recentCount(best[0], now) ? candidate : best);
+        }
+
+        const [id, entry] = chosen;
+        entry.requests++;
+        entry.lastUsedAt = now;
+        this.recent.set(id, [...(this.recent.get(id) || []), now]);
+        await this.save();
+        return { id, key: entry.key };
+    }
+
+    private async report(report: {
+        id: string; success: boolean; kind?: KeyFailureKind; retryAfterMs?: number | null; reason?: string
+    }): Promise<void> {
+        const entry = (await this.load()).get(report.id);
+        if (!entry) return;
+
+        if (report.success) {
+            if (entry.cooldownUntil === null && entry.lastError === null) return;
+            entry.cooldownUntil = null;
+            entry.lastError = null;
+        } else {
+            entry.failures++;
+            entry.lastError = report.reason || report.kind || 'unknown';
+            if (report.kind) {
+                const cooldownMs = report.kind === 'auth'
+                    ? AUTH_COOLDOWN_MS
+                    : report.retryAfterMs ?? QUOTA_COOLDOWN_MS;
+                entry.cooldownUntil = Date.now() + cooldownMs;
+                console.warn(`[ApiKeyPool] Cooling down key ${entry.label} for ${cooldownMs}ms (${report.kind})`);
+            }
+        }
+        await this.save();
+    }
+
+    private async list(): Promise<ApiKeyInfo[]> {
+        const now = Date.now();
+        return [...(await this.load()).entries()].map(([id, entry]) => this.toInfo(id, entry, now));
+    }
+
+    private async add(key: string, label?: string): Promise<ApiKeyInfo | { error: string }> {
+        const keys = await this.load();
+        if ([...keys.values()].some(entry => entry.key === key)) {
+            return { error: 'duplicate' };
+        }
+        const id = crypto.randomUUID();
+        const entry = newKey(key, label || `key-${keys.size + 1}`, 'admin');
+        keys.set(id, entry);
+        await this.save();
+        return this.toInfo(id, entry, Date.now());
+    }
+
+    private async setDisabled(id: string, disabled: boolean): Promise<ApiKeyInfo | null> {
+        const entry = (await this.load()).get(id);
+        if (!entry) return null;
+        entry.disabled = disabled;
+        if (!disabled) {
+            // 重新启用时清除冷却
+            entry.cooldownUntil = null;
+        }
+        await this.save();
+        return this.toInfo(id, entry, Date.now());
+    }
+
+    private async remove(id: string): Promise<{ success: boolean; error?: string }> {
+        const keys = await this.load();
+        const entry = keys.get(id);
+        if (!entry) return { success: false, error: 'not_found' };
+        if (entry.source === 'env') return { success: false, error: 'env_key' };
+        keys.delete(id);
+        this.recent.delete(id);
+        await this.save();
+        return { success: true };
+    }
+
+    private recentCount(id: string, now: number): number {
+        const timestamps = (this.recent.get(id) || []).filter(t => t > now - USAGE_WINDOW_MS);
+        this.recent.set(id, timestamps);
+        return timestamps.length;
+    }
+
+    private toInfo(id: string, entry: PooledKey, now: number): ApiKeyInfo {
+        const cooling = entry.cooldownUntil !== null && entry.cooldownUntil > now;
+        return {
+            id,
+            label: entry.label,
+            hint: entry.key.slice(-4),
+            source: entry.source,
+            status: entry.disabled ? 'disabled' : cooling ? 'cooling_down' : 'active',
+            cooldownUntil: cooling ? entry.cooldownUntil : null,
+            lastError: entry.lastError,
+            requests: entry.requests,
+            failures: entry.failures,
+            recentRequests: this.recentCount(id, now),
+            lastUsedAt: entry.lastUsedAt,
+            createdAt: entry.createdAt
+        };
+    }
+}
+
+function newKey(key: string, label: string, source: PooledKey['source']): PooledKey {
+    return {
+        key,
+        label,
+        source,
+        disabled: false,
+        cooldownUntil: null,
+        lastError: null,
+        requests: 0,
+        failures: 0,
+        lastUsedAt: null,
+        createdAt: Date.now()
+    };
+}
@@ -0,0 +1,179 @@
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from '../types';
+
+// 连续失败多少次后熔断
+const FAILURE_THRESHOLD = 5;
+// 熔断持续时间，过后进入半开状态放行一个探测请求
+const OPEN_DURATION_MS = 30_000;
+// 半开探测请求的最长占用时间（探测方崩溃时自动释放）
+const PROBE_TIMEOUT_MS = 120_000;
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface BreakerState {
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt: number | null;
+    probeStartedAt: number | null;
+    lastFailureReason: string | null;
+}
+
+export interface CircuitStatus {
+    state: CircuitState;
+    consecutiveFailures: number;
+    retryAfterMs: number;
+    lastFailureReason: string | null;
+}
+
+const INITIAL_STATE: BreakerState = {
+    state: 'closed',
+    consecutiveFailures: 0,
+    openedAt: null,
+    probeStartedAt: null,
+    lastFailureReason: null
+};
+
+/**
+ * CircuitBreaker Durable Object
+ *
+ * Shared upstream health state for all Gemini calls (one instance per upstream).
+ * closed -> open after FAILURE_THRESHOLD consecutive failures,
+ * open -> half_open after OPEN_DURATION_MS, half_open -> closed on a successful probe.
+ */
+export class CircuitBreaker extends DurableObject {
+    private cached: BreakerState | null = null;
+
+    constructor(state: DurableObjectState, env: Env) {
+        super(state, env);
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+
+        // 查询状态（不改变状态）
+        if (request.method === "GET" && url.pathname === "/state") {
+            return Response.json(this.toStatus(await this.load()));
+        }
+
+        // 请求放行许可
+        if (request.method === "POST" && url.pathname === "/acquire") {
+            return Response.json(await this.acquire());
+        }
+
+        // 上报调用结果
+        if (request.method === "POST" && url.pathname === "/record") {
+            const { success, reason } = await request.json() as { success: boolean; reason?: string };
+            const state = success ? await this.recordSuccess() : await this.recordFailure(reason || 'unknown');
+            return Response.json(this.toStatus(state));
+        }
+
+        // 交还探测名额（请求在本地被拦下，没有发往上游）
+        if (request.method === "POST" && url.pathname === "/release") {
+            return Response.json(this.toStatus(await this.release()));
+        }
+
+        // 管理员手动重置
+        if (request.method === "POST" && url.pathname === "/reset") {
+            await this.save({ ...INITIAL_STATE });
+            return Response.json(this.toStatus(INITIAL_STATE));
+        }
+
+        return new Response("Not found", { status: 404 });
+    }
+
+    private async load(): Promise<BreakerState> {
+        if (!this.cached) {
+            this.cached = (await this.ctx.storage.get<BreakerState>('state')) || { ...INITIAL_STATE };
+        }
+        return this.cached;
+    }
+
+    private async save(state: BreakerState): Promise<void> {
+        this.cached = state;
+        await this.ctx.storage.put('state', state);
+    }
+
+    private async acquire(): Promise<{ allowed: boolean; status: CircuitStatus }> {
+        const state = await this.load();
+        const now = Date.now();
+
+        if (state.state === 'closed') {
+            return { allowed: true, status: this.toStatus(state) };
+        }
+
+        if (state.state === 'open' && state.openedAt !== null && now - state.openedAt >= OPEN_DURATION_MS) {
+            // 冷却结束，放行一个探测请求
+            const next: BreakerState = { ...state, state: 'half_open', probeStartedAt: now };
+            await this.save(next);
+            return { allowed: true, status: this.toStatus(next) };
+        }
+
+        if (state.state === 'half_open' && (state.probeStartedAt === null || now - state.probeStartedAt >= PROBE_TIMEOUT_MS)) {
+            // 上一个探测请求未回报结果，重新放行
+            const next: BreakerState = { ...state, probeStartedAt: now };
+            await this.save(next);
+            return { allowed: true, status: this.toStatus(next) };
+        }
+
+        return { allowed: false, status: this.toStatus(state) };
+    }
+
+    private async release(): Promise<BreakerState> {
+        const state = await this.load();
+        if (state.state !== 'half_open' || state.probeStartedAt === null) {
+            return state;
+        }
+        // 下一个 acquire 立即放行新的探测请求
+        const next: BreakerState = { ...state, probeStartedAt: null };
+        await this.save(next);
+        return next;
+    }
+
+    private async recordSuccess(): Promise<BreakerState> {
+        const state = await this.load();
+        if (state.state === 'closed' && state.consecutiveFailures === 0) {
+            return state;
+        }
+        if (state.state !== 'closed') {
+            console.log('[CircuitBreaker] Upstream recovered, closing circuit');
+        }
+        const next: BreakerState = { ...INITIAL_STATE };
+        await this.save(next);
+        return next;
+    }
+
+    private async recordFailure(reason: string): Promise<BreakerState> {
+        const state = await this.load();
+        const now = Date.now();
+        const failures = state.consecutiveFailures + 1;
+
+        // 半开状态下探测失败，或连续失败达到阈值：打开熔断
+        const shouldOpen = state.state === 'half_open' || failures >= FAILURE_THRESHOLD;
+        const next: BreakerState = {
+            state: shouldOpen ? 'open' : state.state,
+            consecutiveFailures: failures,
+            openedAt: shouldOpen ? now : state.openedAt,
+            probeStartedAt: null,
+            lastFailureReason: reason
+        };
+
+        if (shouldOpen && state.state !== 'open') {
+            console.warn(`[CircuitBreaker] Opening circuit after ${failures} consecutive failures: ${reason}`);
+        }
+
+        await this.save(next);
+        return next;
+    }
+
+    private toStatus(state: BreakerState): CircuitStatus {
+        const retryAfterMs = state.state === 'open' && state.openedAt !== null
+            ? Math.max(0, OPEN_DURATION_MS - (Date.now() - state.openedAt))
+            : 0;
+        return {
+            state: state.state,
+            consecutiveFailures: state.consecutiveFailures,
+            retryAfterMs,
+            lastFailureReason: state.lastFailureReason
+        };
+    }
+}
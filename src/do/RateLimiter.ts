@@ -0,0 +1,106 @@
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from '../types';
+
+// POST /check 请求体
+export interface RateLimitCheck {
+    rule: string;        // 限流规则（方法 + 路由）
+    limit: number;       // 窗口内允许的请求数
+    windowMs: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetMs: number;      // 距离窗口内最早一次请求过期（释放一个名额）的时间
+    retryAfterMs: number; // 被拒绝时需要等待的时间
+}
+
+// 单条规则的滑动窗口：窗口内每次放行请求的时间戳
+interface SlidingWindow {
+    windowMs: number;
+    timestamps: number[];
+}
+
+/**
+ * RateLimiter Durable Object
+ *
+ * One instance per caller identity (user id, API key or IP), shared by every isolate.
+ * Keeps a sliding-window log of request timestamps per rule; the alarm prunes expired
+ * entries and wipes storage once the caller has been idle for a full window.
+ */
+export class RateLimiter extends DurableObject {
+    private windows: Map<string, SlidingWindow> | null = null;
+
+    constructor(state: DurableObjectState, env: Env) {
+        super(state, env);
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+
+        if (request.method === "POST" && url.pathname === "/check") {
+            return Response.json(await this.check(await request.json() as RateLimitCheck));
+        }
+
+        return new Response("Not found", { status: 404 });
+    }
+
+    async alarm() {
+        const windows = await this.load();
+        const now = Date.now();
+        let nextExpiry = Infinity;
+
+        for (const [rule, window] of windows) {
+            const timestamps = window.timestamps.filter(t => t > now - window.windowMs);
+            if (timestamps.length === 0) {
+                windows.delete(rule);
+                continue;
+            }
+            windows.set(rule, { ...window, timestamps });
+            nextExpiry = Math.min(nextExpiry, timestamps[timestamps.length - 1] + window.windowMs);
+        }
+
+        if (windows.size === 0) {
+            // 已空闲超过一个窗口：清空存储，实例可被回收
+            await this.ctx.storage.deleteAll();
+            this.windows = null;
+            return;
+        }
+
+        await this.ctx.storage.put('windows', Object.fromEntries(windows));
+        await this.ctx.storage.setAlarm(nextExpiry);
+    }
+
+    private async load(): Promise<Map<string, SlidingWindow>> {
+        if (!this.windows) {
+            const stored = await this.ctx.storage.get<Record<string, SlidingWindow>>('windows');
+            this.windows = new Map(Object.entries(stored || {}));
+        }
+        return this.windows;
+    }
+
+    private async check({ rule, limit, windowMs }: RateLimitCheck): Promise<RateLimitResult> {
+        const windows = await this.load();
+        const now = Date.now();
+        const timestamps = (windows.get(rule)?.timestamps ?? []).filter(t => t > now - windowMs);
+
+        const allowed = timestamps.length < limit;
+        if (allowed) {
+            timestamps.push(now);
+            windows.set(rule, { windowMs, timestamps });
+            await this.ctx.storage.put('windows', Object.fromEntries(windows));
+            // 最后一次请求过期后由 alarm 清理
+            await this.ctx.storage.setAlarm(now + windowMs);
+        }
+
+        const resetMs = timestamps.length > 0 ? Math.max(0, timestamps[0] + windowMs - now) : 0;
+        return {
+            allowed,
+            limit,
+            remaining: Math.max(0, limit - timestamps.length),
+            resetMs,
+            retryAfterMs: allowed ? 0 : resetMs
+        };
+    }
+}
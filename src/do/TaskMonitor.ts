@@ -18,37 +18,47 @@ export class TaskMonitor extends DurableObject {
 
         // Handle WebSocket upgrade request
         if (request.headers.get("Upgrade") === "websocket") {
-            // 🔐 WebSocket Authentication - get token from URL query parameter
-            const token = url.searchParams.get('token');
-            if (!token) {
-                return new Response("Unauthorized: Missing token", { status: 401 });
+            // 🔐 Session and task ownership are verified by the /api/ws/task/:taskId route,
+            // which forwards the caller identity in X-User-Id / X-User-Role.
+            // The DO is not reachable from outside the worker.
+            const userId = request.headers.get('X-User-Id');
+            if (!userId) {
+                return new Response("Unauthorized", { status: 401 });
             }
 
-            // Note: Full token validation would require DB/KV access.
-            // For now, we just check that a token is provided.
-            // The token is already validated when the user makes API calls.
-            // If you need stricter validation, you can pass env.DB and env.SESSION_KV
-            // and call validateSession here.
-
             const pair = new WebSocketPair();
             const [client, server] = Object.values(pair);
 
+            // Tag sockets with the caller so broadcasts only reach the task owner (and admins).
+            // Tags survive hibernation, unlike in-memory state.
+            const tags = [`user:${userId}`];
+            if (request.headers.get('X-User-Role') === 'admin') {
+                tags.push('role:admin');
+            }
+
             // Use Hibernation API - acceptWebSocket instead of ws.accept()
             // This allows the DO to hibernate when no messages are being sent,
             // significantly reducing costs.
-            this.ctx.acceptWebSocket(server);
+            this.ctx.acceptWebSocket(server, tags);
+
+            // Echo the subprotocol when the token was sent via Sec-WebSocket-Protocol
+            const headers = new Headers();
+            if (request.headers.get('Sec-WebSocket-Protocol')?.split(',').map(p => p.trim()).includes('bearer')) {
+                headers.set('Sec-WebSocket-Protocol', 'bearer');
+            }
 
             return new Response(null, {
                 status: 101,
                 webSocket: client,
+                headers,
             });
         }
 
         // Handle internal broadcast request (from task_processor)
         if (request.method === "POST" && url.pathname === "/broadcast") {
             try {
-                const status = await request.json();
-                await this.broadcast(status);
+                const { userId, status } = await request.json() as { userId: number; status: unknown };
+                await this.broadcast(userId, status);
                 return new Response("Broadcasted", { status: 200 });
             } catch (e) {
                 console.error("[TaskMonitor] Broadcast error:", e);
@@ -94,14 +104,17 @@ export class TaskMonitor extends DurableObject {
     }
 
     /**
-     * Broadcast a status update to all connected clients
+     * Broadcast a status update to the task owner's connections (and admins)
      */
-    async broadcast(status: unknown) {
+    async broadcast(userId: number, status: unknown) {
         const message = JSON.stringify(status);
 
-        // Use ctx.getWebSockets() to get all active connections
+        // Use ctx.getWebSockets(tag) to get matching connections
         // This works with Hibernation API - connections persist even when DO is hibernating
-        const websockets = this.ctx.getWebSockets();
+        const websockets = [...new Set([
+            ...this.ctx.getWebSockets(`user:${userId}`),
+            ...this.ctx.getWebSockets('role:admin')
+        ])];
 
         let sentCount = 0;
         for (const ws of websockets) {
@@ -0,0 +1,123 @@
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from '../types';
+
+// 统计利用率的时间窗口
+const UTILIZATION_WINDOW_MS = 60_000;
+
+// POST /acquire 请求体
+export interface GovernorAcquire {
+    rpm: number;          // 每分钟请求预算（桶容量与补充速率）
+    maxWaitMs: number;    // 调用方最多愿意等待多久
+}
+
+export interface GovernorGrant {
+    granted: boolean;
+    waitMs: number;       // 放行前需要等待的时间（已为调用方预留名额）
+    retryAfterMs: number; // 被拒绝时建议的重试间隔
+}
+
+export interface GovernorStatus {
+    rpm: number;
+    tokens: number;          // 当前可用令牌（负数表示已预留给排队中的调用）
+    waiting: number;         // 已预留、尚未到放行时间的调用数
+    grantedLastMinute: number;
+    rejectedLastMinute: number;
+    utilization: number;     // 最近一分钟放行数 / rpm，0-1
+}
+
+interface BucketState {
+    rpm: number;
+    tokens: number;
+    updatedAt: number;
+}
+
+/**
+ * UpstreamGovernor Durable Object
+ *
+ * One instance per upstream. A token bucket shared by every isolate, queue consumer and batch:
+ * each Gemini request takes a token before it is sent. When the bucket is empty the caller is
+ * given a reserved future slot (waitMs) as long as it is within its maxWaitMs, otherwise it is
+ * rejected and the task falls back to the normal retry path.
+ */
+export class UpstreamGovernor extends DurableObject {
+    private bucket: BucketState | null = null;
+    // 最近一分钟放行 / 拒绝的时间戳（放行时间为预留的实际发送时间）
+    private granted: number[] = [];
+    private rejected: number[] = [];
+
+    constructor(state: DurableObjectState, env: Env) {
+        super(state, env);
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+
+        if (request.method === "POST" && url.pathname === "/acquire") {
+            return Response.json(await this.acquire(await request.json() as GovernorAcquire));
+        }
+
+        if (request.method === "GET" && url.pathname === "/state") {
+            const rpm = parseInt(url.searchParams.get('rpm') || '60', 10) || 60;
+            return Response.json(await this.status(rpm));
+        }
+
+        return new Response("Not found", { status: 404 });
+    }
+
+    private async load(rpm: number): Promise<BucketState> {
+        if (!this.bucket) {
+            this.bucket = (await this.ctx.storage.get<BucketState>('bucket'))
+                || { rpm, tokens: rpm, updatedAt: Date.now() };
+        }
+
+        // 按经过的时间补充令牌，最多补满一分钟的预算
+        const now = Date.now();
+        const elapsed = now - this.bucket.updatedAt;
+        this.bucket = {
+            rpm,
+            tokens: Math.min(rpm, this.bucket.tokens + elapsed * rpm / 60_000),
+            updatedAt: now
+        };
+        return this.bucket;
+    }
+
+    private async acquire({ rpm, maxWaitMs }: GovernorAcquire): Promise<GovernorGrant> {
+        const bucket = await this.load(rpm);
+        const now = Date.now();
+        this.prune(now);
+
+        // 令牌不足时，等到补充出 1 个令牌所需的时间
+        const waitMs = bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) * 60_000 / rpm);
+        if (waitMs > maxWaitMs) {
+            this.rejected.push(now);
+            return { granted: false, waitMs: 0, retryAfterMs: waitMs };
+        }
+
+        bucket.tokens -= 1;
+        this.granted.push(now + waitMs);
+        await this.ctx.storage.put('bucket', bucket);
+        return { granted: true, waitMs, retryAfterMs: 0 };
+    }
+
+    private async status(rpm: number): Promise<GovernorStatus> {
+        const bucket = await this.load(rpm);
+        const now = Date.now();
+        this.prune(now);
+
+        const grantedLastMinute = this.granted.filter(t => t <= now).length;
+        return {
+            rpm: bucket.rpm,
+            tokens: Math.round(bucket.tokens * 100) / 100,
+            waiting: this.granted.length - grantedLastMinute,
+            grantedLastMinute,
+            rejectedLastMinute: this.rejected.length,
+            utilization: Math.min(1, Math.round(grantedLastMinute / bucket.rpm * 100) / 100)
+        };
+    }
+
+    private prune(now: number) {
+        const cutoff = now - UTILIZATION_WINDOW_MS;
+        this.granted = this.granted.filter(t => t > cutoff);
+        this.rejected = this.rejected.filter(t => t > cutoff);
+    }
+}
@@ -0,0 +1,357 @@
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from '../types';
+
+// 保留最近多少条事件用于断线重放
+const MAX_EVENTS = 500;
+// SSE 心跳间隔，避免代理因空闲断开连接
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+const TERMINAL_EVENTS: TaskEventType[] = ['completed', 'failed', 'cancelled'];
+
+export type TaskEventType =
+    | 'created' | 'started' | 'progress' | 'retrying' | 'paused' | 'resumed' | 'completed' | 'failed' | 'cancelled';
+
+// 推送给客户端的任务事件
+export interface TaskEvent {
+    seq: number;
+    type: TaskEventType;
+    taskId: string;
+    batchId: string | null;
+    data: Record<string, unknown>;
+    timestamp: number;
+}
+
+// 每个连接的订阅范围（null 表示订阅全部任务）
+interface Subscription {
+    taskIds: string[] | null;
+    batchIds: string[] | null;
+}
+
+// SSE 连接（不支持休眠，只存在于内存中）
+interface EventStream {
+    writer: WritableStreamDefaultWriter<Uint8Array>;
+    subscription: Subscription;
+    // 这些任务全部结束后关闭流
+    pending: Set<string>;
+}
+
+// POST /stream 请求体
+export interface StreamRequest {
+    since: number;
+    taskIds?: string[];
+    batchIds?: string[];
+    pendingTaskIds: string[];
+    snapshot?: unknown;
+}
+
+type ClientMessage =
+    | { type: 'ping' }
+    | { type: 'subscribe'; taskIds?: string[]; batchIds?: string[] }
+    | { type: 'unsubscribe'; taskIds?: string[]; batchIds?: string[] }
+    | { type: 'replay'; since: number };
+
+/**
+ * UserChannel Durable Object
+ *
+ * One instance per user. Streams state changes for all of the user's tasks and batches
+ * over a single WebSocket, instead of one TaskMonitor socket per task.
+ * Events get a monotonically increasing seq and the last MAX_EVENTS are kept in storage,
+ * so a reconnecting client can pass `since` to replay what it missed.
+ * The same events are also served as Server-Sent Events for clients whose proxies break WebSockets.
+ */
+export class UserChannel extends DurableObject {
+    private seq: number | null = null;
+    private streams = new Set<EventStream>();
+    private heartbeat: ReturnType<typeof setInterval> | null = null;
+    private encoder = new TextEncoder();
+
+    constructor(state: DurableObjectState, env: Env) {
+        super(state, env);
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+
+        // WebSocket 连接（身份已由 /api/ws/user 路由验证，并按用户 id 路由到本实例）
+        if (request.headers.get("Upgrade") === "websocket") {
+            if (!request.headers.get('X-User-Id')) {
+                return new Response("Unauthorized", { status: 401 });
+            }
+
+            const pair = new WebSocketPair();
+            const [client, server] = Object.values(pair);
+
+            this.ctx.acceptWebSocket(server);
+            server.serializeAttachment({ taskIds: null, batchIds: null } satisfies Subscription);
+
+            // 断线重连：补发 since 之后的事件
+            const since = url.searchParams.get('since');
+            if (since !== null) {
+                await this.replay(server, parseInt(since, 10) || 0);
+            }
+
+            const headers = new Headers();
+            if (request.headers.get('Sec-WebSocket-Protocol')?.split(',').map(p => p.trim()).includes('bearer')) {
+                headers.set('Sec-WebSocket-Protocol', 'bearer');
+            }
+
+            return new Response(null, { status: 101, webSocket: client, headers });
+        }
+
+        // 内部发布（来自 publishTaskEvent）
+        if (request.method === "POST" && url.pathname === "/publish") {
+            const event = await request.json() as Omit<TaskEvent, 'seq' | 'timestamp'>;
+            return Response.json(await this.publish(event));
+        }
+
+        // SSE 订阅（来自 /api/tasks/:taskId/events 等路由，已完成鉴权）
+        if (request.method === "POST" && url.pathname === "/stream") {
+            return this.openStream(await request.json() as StreamRequest);
+        }
+
+        // 拉取 since 之后的事件（HTTP 轮询使用）
+        if (request.method === "GET" && url.pathname === "/events") {
+            const since = parseInt(url.searchParams.get('since') || '0', 10) || 0;
+            return Response.json(await this.eventsSince(since));
+        }
+
+        return new Response("Not found", { status: 404 });
+    }
+
+    /**
+     * Hibernation callback: WebSocket message received
+     */
+    async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+        if (typeof message !== 'string') return;
+
+        let data: ClientMessage;
+        try {
+            data = JSON.parse(message);
+        } catch {
+            return; // Ignore non-JSON messages
+        }
+
+        switch (data.type) {
+            case 'ping':
+                ws.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
+                break;
+
+            case 'subscribe': {
+                // 不带 id 表示订阅全部；否则在已有范围上追加
+                const current = ws.deserializeAttachment() as Subscription;
+                const next: Subscription = !data.taskIds && !data.batchIds
+                    ? { taskIds: null, batchIds: null }
+                    : {
+                        taskIds: merge(current.taskIds, data.taskIds),
+                        batchIds: merge(current.batchIds, data.batchIds)
+                    };
+                ws.serializeAttachment(next);
+                ws.send(JSON.stringify({ type: 'subscribed', ...next }));
+                break;
+            }
+
+            case 'unsubscribe': {
+                const current = ws.deserializeAttachment() as Subscription;
+                const next: Subscription = !data.taskIds && !data.batchIds
+                    ? { taskIds: [], batchIds: [] }
+                    : {
+                        taskIds: remove(current.taskIds, data.taskIds),
+                        batchIds: remove(current.batchIds, data.batchIds)
+                    };
+                ws.serializeAttachment(next);
+                ws.send(JSON.stringify({ type: 'subscribed', ...next }));
+                break;
+            }
+
+            case 'replay':
+                await this.replay(ws, data.since || 0);
+                break;
+        }
+    }
+
+    /**
+     * Hibernation callback: WebSocket closed
+     */
+    async webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean) {
+        console.log(`[UserChannel] WebSocket closed: code=${code}, reason=${reason}, wasClean=${wasClean}`);
+    }
+
+    /**
+     * Hibernation callback: WebSocket error
+     */
+    async webSocketError(ws: WebSocket, error: unknown) {
+        console.error('[UserChannel] WebSocket error:', error);
+        ws.close(1011, 'Internal error');
+    }
+
+    private async nextSeq(): Promise<number> {
+        if (this.seq === null) {
+            this.seq = (await this.ctx.storage.get<number>('seq')) || 0;
+        }
+        this.seq++;
+        return this.seq;
+    }
+
+    private async publish(input: Omit<TaskEvent, 'seq' | 'timestamp'>): Promise<TaskEvent> {
+        const event: TaskEvent = {
+            ...input,
+            seq: await this.nextSeq(),
+            timestamp: Date.now()
+        };
+
+        await this.ctx.storage.put({ seq: event.seq, [eventKey(event.seq)]: event });
+        // 只保留最近 MAX_EVENTS 条
+        if (event.seq > MAX_EVENTS) {
+            await this.ctx.storage.delete(eventKey(event.seq - MAX_EVENTS));
+        }
+
+        const message = JSON.stringify({ type: 'event', event });
+        for (const ws of this.ctx.getWebSockets()) {
+            if (!matches(ws.deserializeAttachment() as Subscription, event)) continue;
+            try {
+                ws.send(message);
+            } catch (err) {
+                console.error('[UserChannel] Failed to send to WebSocket:', err);
+                try {
+                    ws.close(1011, 'Failed to send');
+                } catch {
+                    // Ignore close errors
+                }
+            }
+        }
+
+        for (const stream of this.streams) {
+            this.writeStreamEvent(stream, event);
+        }
+
+        return event;
+    }
+
+    private async openStream(req: StreamRequest): Promise<Response> {
+        const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+        const stream: EventStream = {
+            writer: writable.getWriter(),
+            subscription: {
+                taskIds: req.taskIds ?? null,
+                batchIds: req.batchIds ?? null
+            },
+            pending: new Set(req.pendingTaskIds)
+        };
+
+        this.write(stream, 'retry: 3000\n\n');
+        if (req.snapshot !== undefined) {
+            this.write(stream, `event: snapshot\ndata: ${JSON.stringify(req.snapshot)}\n\n`);
+        }
+
+        // 先补发 since 之后的事件，再接收实时事件
+        this.streams.add(stream);
+        const { events, latestSeq, gap } = await this.eventsSince(req.since);
+        if (gap) {
+            this.write(stream, `event: gap\ndata: ${JSON.stringify({ since: req.since, latestSeq })}\n\n`);
+        }
+        for (const event of events) {
+            this.writeStreamEvent(stream, event);
+        }
+
+        if (stream.pending.size === 0) {
+            this.closeStream(stream);
+        } else if (!this.heartbeat) {
+            this.heartbeat = setInterval(() => {
+                for (const s of this.streams) {
+                    this.write(s, `: heartbeat ${Date.now()}\n\n`);
+                }
+            }, HEARTBEAT_INTERVAL_MS);
+        }
+
+        return new Response(readable, {
+            headers: {
+                'Content-Type': 'text/event-stream; charset=utf-8',
+                'Cache-Control': 'no-cache, no-transform',
+                'X-Accel-Buffering': 'no'
+            }
+        });
+    }
+
+    private writeStreamEvent(stream: EventStream, event: TaskEvent) {
+        if (!this.streams.has(stream) || !matches(stream.subscription, event)) return;
+
+        this.write(stream, `id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+        // 订阅的任务全部结束后关闭流，客户端无需再重连
+        if (TERMINAL_EVENTS.includes(event.type)) {
+            stream.pending.delete(event.taskId);
+            if (stream.pending.size === 0) {
+                this.closeStream(stream);
+            }
+        }
+    }
+
+    private write(stream: EventStream, chunk: string) {
+        // 不等待写入完成：客户端断开时写入失败，移除该连接
+        stream.writer.write(this.encoder.encode(chunk)).catch(() => this.closeStream(stream));
+    }
+
+    private closeStream(stream: EventStream) {
+        if (!this.streams.delete(stream)) return;
+        stream.writer.close().catch(() => {
+            // Ignore close errors (client already gone)
+        });
+        if (this.streams.size === 0 && this.heartbeat) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = null;
+        }
+    }
+
+    private async eventsSince(since: number): Promise<{ events: TaskEvent[]; latestSeq: number; gap: boolean }> {
+        const latestSeq = this.seq ?? ((await this.ctx.storage.get<number>('seq')) || 0);
+        const oldest = Math.max(1, latestSeq - MAX_EVENTS + 1);
+
+        const stored = await this.ctx.storage.list<TaskEvent>({
+            start: eventKey(Math.max(since + 1, oldest)),
+            end: eventKey(latestSeq + 1)
+        });
+
+        return {
+            events: [...stored.values()],
+            latestSeq,
+            // 客户端落后太多，部分事件已被淘汰，需要通过 REST 接口重新同步
+            gap: since + 1 < oldest && latestSeq > 0
+        };
+    }
+
+    private async replay(ws: WebSocket, since: number) {
+        const { events, latestSeq, gap } = await this.eventsSince(since);
+        const subscription = ws.deserializeAttachment() as Subscription;
+
+        for (const event of events) {
+            if (matches(subscription, event)) {
+                ws.send(JSON.stringify({ type: 'event', event }));
+            }
+        }
+        ws.send(JSON.stringify({ type: 'replayed', since, latestSeq, gap }));
+    }
+}
+
+function eventKey(seq: number): string {
+    // 补零保证按字典序排序
+    return `event:${String(seq).padStart(12, '0')}`;
+}
+
+function matches(subscription: Subscription, event: TaskEvent): boolean {
+    if (subscription.taskIds === null && subscription.batchIds === null) return true;
+    return (subscription.taskIds?.includes(event.taskId) ?? false)
+        || (!!event.batchId && (subscription.batchIds?.includes(event.batchId) ?? false));
+}
+
+function merge(current: string[] | null, ids?: string[]): string[] | null {
+    // 已订阅全部时保持不变
+    if (current === null) return ids ? null : current;
+    return ids ? [...new Set([...current, ...ids])] : current;
+}
+
+function remove(current: string[] | null, ids?: string[]): string[] | null {
+    if (!ids) return current;
+    // 从"全部"中取消单个 id 无法表达，保持订阅全部
+    if (current === null) return null;
+    return current.filter(id => !ids.includes(id));
+}
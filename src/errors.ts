@@ -0,0 +1,159 @@
+/**
+ * 生成链路的结构化错误
+ *
+ * 由 Provider 抛出，app.onError / 任务处理器按类型（而非错误文本）决定
+ * HTTP 状态码、用户提示以及是否值得重试。
+ */
+
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+
+export type GenerationErrorCode =
+  | 'UPSTREAM_QUOTA'
+  | 'SAFETY_BLOCKED'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'INVALID_IMAGE'
+  | 'PROVIDER_CONFIG';
+
+export class GenerationError extends Error {
+  readonly code: GenerationErrorCode;
+  // 是否为临时性错误（重试可能成功）
+  readonly retryable: boolean;
+  readonly httpStatus: ContentfulStatusCode;
+  // 返回给前端的提示文案
+  readonly userMessage: string;
+
+  constructor(
+    code: GenerationErrorCode,
+    message: string,
+    options: { retryable: boolean; httpStatus: ContentfulStatusCode; userMessage: string }
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = options.retryable;
+    this.httpStatus = options.httpStatus;
+    this.userMessage = options.userMessage;
+  }
+}
+
+/**
+ * 上游配额/限流（HTTP 429、RESOURCE_EXHAUSTED）
+ */
+export class QuotaExceededError extends GenerationError {
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null = null) {
+    super('UPSTREAM_QUOTA', message, {
+      retryable: true,
+      httpStatus: 429,
+      userMessage: 'AI 服务繁忙，请稍后重试'
+    });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * 本服务的上游请求预算（UpstreamGovernor）已排满，请求未发往上游
+ */
+export class UpstreamBudgetError extends QuotaExceededError {
+  constructor(rpm: number, retryAfterMs: number) {
+    super(`Upstream budget exhausted (${rpm} rpm)`, retryAfterMs);
+  }
+}
+
+/**
+ * API key 池中所有 key 都在冷却或已禁用，请求未发往上游
+ */
+export class KeyPoolExhaustedError extends QuotaExceededError {
+  constructor(retryAfterMs: number) {
+    super('All Gemini API keys are cooling down', retryAfterMs);
+  }
+}
+
+/**
+ * 内容被安全策略拦截
+ */
+export class SafetyBlockError extends GenerationError {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super('SAFETY_BLOCKED', `Generation blocked by safety filter: ${reason}`, {
+      retryable: false,
+      httpStatus: 422,
+      userMessage: '内容未通过安全审核，请调整图片或提示词后重试'
+    });
+    this.reason = reason;
+  }
+}
+
+/**
+ * 单次调用超过截止时间
+ */
+export class UpstreamTimeoutError extends GenerationError {
+  constructor(timeoutMs: number) {
+    super('UPSTREAM_TIMEOUT', `Upstream request timed out after ${timeoutMs}ms`, {
+      retryable: true,
+      httpStatus: 504,
+      userMessage: 'AI 服务响应超时，请稍后重试'
+    });
+  }
+}
+
+/**
+ * 上游不可用（5xx、网络错误或熔断器处于打开状态）
+ */
+export class UpstreamUnavailableError extends GenerationError {
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null = null) {
+    super('UPSTREAM_UNAVAILABLE', message, {
+      retryable: true,
+      httpStatus: 503,
+      userMessage: 'AI 服务暂时不可用，请稍后重试'
+    });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * 响应中没有可用的图片数据
+ */
+export class InvalidImageError extends GenerationError {
+  constructor(message: string) {
+    super('INVALID_IMAGE', message, {
+      retryable: true,
+      httpStatus: 502,
+      userMessage: 'AI 未返回有效图片，请重试'
+    });
+  }
+}
+
+/**
+ * Provider 配置错误（如缺少 API Key）
+ */
+export class ProviderConfigError extends GenerationError {
+  constructor(message: string) {
+    super('PROVIDER_CONFIG', message, {
+      retryable: false,
+      httpStatus: 500,
+      userMessage: 'API 配置错误，请联系管理员'
+    });
+  }
+}
+
+/**
+ * 判断错误是否为临时性的生成错误
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof GenerationError && error.retryable;
+}
+
+/**
+ * 错误分类（用于审计记录）：生成错误取 code，其余取异常类名
+ */
+export function errorClass(error: unknown): string {
+  if (error instanceof GenerationError) return error.code;
+  if (error instanceof Error) return error.name || 'Error';
+  return typeof error;
+}
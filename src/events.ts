@@ -0,0 +1,73 @@
+/**
+ * 任务事件推送
+ *
+ * 任务状态变化统一从这里发出：写入审计时间线（task_events）、用户的 UserChannel（带序号、可重放），
+ * 并兼容旧的按任务订阅的 TaskMonitor。推送失败只记录日志，不影响任务本身。
+ */
+
+import { taskEventDb } from './db';
+import type { TaskEvent, TaskEventType } from './do/UserChannel';
+import type { Env, Task } from './types';
+
+export type { TaskEvent, TaskEventType };
+
+type EventTask = Pick<Task, 'id' | 'userId' | 'type' | 'batchId'>;
+
+// 事件发生后的任务状态（也是旧 TaskMonitor 客户端使用的 status 字段）
+const EVENT_STATUS: Record<TaskEventType, Task['status']> = {
+  created: 'pending',
+  started: 'processing',
+  progress: 'processing',
+  retrying: 'pending',
+  paused: 'paused',
+  resumed: 'pending',
+  completed: 'completed',
+  failed: 'failed',
+  cancelled: 'cancelled'
+};
+
+/**
+ * 获取用户事件通道的 DO stub
+ */
+export function getUserChannel(env: Env, userId: number): DurableObjectStub {
+  return env.USER_CHANNEL.get(env.USER_CHANNEL.idFromName(`user:${userId}`));
+}
+
+/**
+ * 发布任务事件
+ */
+export async function publishTaskEvent(
+  env: Env,
+  task: EventTask,
+  type: TaskEventType,
+  data: Record<string, unknown> = {}
+): Promise<void> {
+  const payload = { type, taskId: task.id, batchId: task.batchId, data: { taskType: task.type, ...data } };
+
+  // 审计记录不保存输出内容（签名链接很快过期，结果以 tasks.output_data 为准）
+  const { output, error, errorClass, attempt, ...details } = data;
+
+  // TaskMonitor 只关心任务已开始后的状态变化
+  const legacyStatus = type === 'created' ? null : EVENT_STATUS[type];
+  await Promise.all([
+    taskEventDb.record(env.DB, task.id, type, {
+      status: EVENT_STATUS[type],
+      attempt: typeof attempt === 'number' ? attempt : null,
+      errorClass: typeof errorClass === 'string' ? errorClass : null,
+      message: typeof error === 'string' ? error : null,
+      data: details
+    }).catch(e => console.error(`[Events] Failed to record ${type} for ${task.id}:`, e)),
+
+    getUserChannel(env, task.userId).fetch(new Request('http://do/publish', {
+      method: 'POST',
+      body: JSON.stringify(payload)
+    })).catch(e => console.error(`[Events] Failed to publish ${type} for ${task.id}:`, e)),
+
+    legacyStatus
+      ? env.TASK_MONITOR.get(env.TASK_MONITOR.idFromName(task.id)).fetch(new Request('http://do/broadcast', {
+        method: 'POST',
+        body: JSON.stringify({ userId: task.userId, status: { status: legacyStatus, ...data } })
+      })).catch(e => console.error(`[Events] Failed to broadcast task update for ${task.id}:`, e))
+      : null
+  ]);
+}
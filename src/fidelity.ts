@@ -0,0 +1,204 @@
+/**
+ * 还原度质检
+ *
+ * 生成完成后用视觉模型对比参考图与生成图，按镜框形状、颜色、镜片色调、Logo 四项打分；
+ * 综合分低于分数线时自动重新生成，最多 FIDELITY_MAX_ATTEMPTS 次（不超过 3 次）且总耗时有上限，保留得分最高的一张。
+ * 分数随图片写入 generated_images.config.fidelity，便于筛选低质量结果。
+ * 质检本身失败（上游错误、返回无法解析）时跳过，不影响任务结果。
+ */
+
+import { generateForTask } from './generation';
+import type { GenerationResult } from './generation';
+import { getUpstreamOptions } from './providers';
+import type { ImageProvider, ReferenceImage } from './providers';
+import { callGeminiAPI, extractTextFromResponse } from './providers/gemini';
+import type { UpstreamOptions } from './providers/gemini';
+import type { StageReporter } from './progress';
+import type { Env, Task } from './types';
+
+// 质检使用的视觉模型
+const QA_MODEL = 'gemini-3-flash-preview';
+const DEFAULT_THRESHOLD = 70;
+const DEFAULT_MAX_ATTEMPTS = 3;
+// 生成次数上限，避免配置过大导致任务长时间占用上游配额
+const MAX_ATTEMPTS_LIMIT = 3;
+// 整个生成 + 质检循环的时间预算，远低于 resetStuckTasks 判定卡住的 10 分钟
+const TIME_BUDGET_MS = 5 * 60_000;
+// 剩余时间不足一次生图（120s）+ 质检（30s）的超时上限时不再重新生成
+const ATTEMPT_RESERVE_MS = 150_000;
+
+// 记录上游调用到任务审计时间线（由任务处理器提供）
+export type UpstreamAudit = <T>(data: Record<string, unknown>, call: () => Promise<T>) => Promise<T>;
+
+export interface FidelityConfig {
+  threshold: number;     // 综合分合格线（0-100）
+  maxAttempts: number;   // 最多生成次数（含首次）
+}
+
+// 各项得分（0-100）
+export interface FidelityScores {
+  frameShape: number;
+  color: number;
+  lensTint: number;
+  logos: number;
+  overall: number;
+  issues: string[];      // 模型指出的主要差异
+}
+
+// 写入 generated_images.config.fidelity 的质检记录
+export interface FidelityReport extends FidelityScores {
+  passed: boolean;
+  threshold: number;
+  attempts: number;      // 实际生成次数
+  model: string;
+}
+
+const QA_PROMPT = `You are a quality inspector for eyewear product photography.
+The FIRST image is the reference photo of the eyewear. The SECOND image was generated from it.
+Compare ONLY the eyewear in both images and score how faithfully the generated image reproduces it, from 0 (completely different) to 100 (identical):
+- frameShape: frame outline, proportions, bridge and temple shape
+- color: frame color, finish and pattern
+- lensTint: lens color, tint gradient and mirror coating
+- logos: visible logos, text and emblems (100 if the reference shows none and none were added)
+- overall: overall fidelity of the eyewear, weighted by how noticeable the differences are
+Ignore the model, pose, background, lighting and composition.
+Return JSON: {"frameShape": number, "color": number, "lensTint": number, "logos": number, "overall": number, "issues": string[]}
+where issues lists the most noticeable differences in short English phrases (empty if none).`;
+
+/**
+ * 读取质检配置；未开启时返回 null
+ */
+export function getFidelityConfig(env: Pick<Env, 'FIDELITY_QA' | 'FIDELITY_THRESHOLD' | 'FIDELITY_MAX_ATTEMPTS'>): FidelityConfig | null {
+  if (env.FIDELITY_QA !== 'on') return null;
+
+  const threshold = parseInt(env.FIDELITY_THRESHOLD || '', 10);
+  const maxAttempts = parseInt(env.FIDELITY_MAX_ATTEMPTS || '', 10);
+  return {
+    threshold: Number.isFinite(threshold) ? Math.min(100, Math.max(0, threshold)) : DEFAULT_THRESHOLD,
+    maxAttempts: Number.isFinite(maxAttempts) ? Math.min(MAX_ATTEMPTS_LIMIT, Math.max(1, maxAttempts)) : DEFAULT_MAX_ATTEMPTS
+  };
+}
+
+function clampScore(value: unknown): number {
+  const score = Number(value);
+  return Number.isFinite(score) ? Math.round(Math.min(100, Math.max(0, score))) : 0;
+}
+
+/**
+ * 用视觉模型对比参考图与生成图
+ * 请求与生图共用上游预算与 key 池（upstream），并通过 audit 记入任务审计时间线
+ * @param generatedImage - data URL 格式的生成图
+ * @returns 各项得分；质检失败时返回 null
+ */
+export async function scoreFidelity(
+  apiKey: string,
+  referenceImage: ReferenceImage,
+  generatedImage: string,
+  upstream: UpstreamOptions = {},
+  audit: UpstreamAudit = (_data, call) => call()
+): Promise<FidelityScores | null> {
+  const match = generatedImage.match(/^data:([^;]+);base64,(.+)$/);
+  if (!match) return null;
+
+  try {
+    const response = await audit({ provider: 'gemini', model: QA_MODEL, purpose: 'fidelity_qa' }, () => callGeminiAPI(
+      apiKey,
+      QA_MODEL,
+      {
+        parts: [
+          { inlineData: { mimeType: referenceImage.mimeType, data: referenceImage.data } },
+          { inlineData: { mimeType: match[1], data: match[2] } },
+          { text: QA_PROMPT }
+        ]
+      },
+      { responseMimeType: "application/json", temperature: 0 },
+      upstream
+    ));
+
+    const text = extractTextFromResponse(response);
+    if (!text) return null;
+    const parsed = JSON.parse(text) as Record<string, unknown>;
+    return {
+      frameShape: clampScore(parsed.frameShape),
+      color: clampScore(parsed.color),
+      lensTint: clampScore(parsed.lensTint),
+      logos: clampScore(parsed.logos),
+      overall: clampScore(parsed.overall),
+      issues: Array.isArray(parsed.issues) ? parsed.issues.filter((i): i is string => typeof i === 'string').slice(0, 5) : []
+    };
+  } catch (error) {
+    console.error('[Fidelity] QA scoring failed:', error);
+    return null;
+  }
+}
+
+/**
+ * 生成图片并进行还原度质检；未开启质检或使用 stub 后端时等同于 generateForTask
+ */
+export async function generateWithFidelityCheck(
+  env: Env,
+  provider: ImageProvider,
+  task: Pick<Task, 'id' | 'type' | 'inputData'>,
+  referenceImage: ReferenceImage,
+  onStage?: StageReporter,
+  audit?: UpstreamAudit
+): Promise<GenerationResult> {
+  const config = getFidelityConfig(env);
+  if (!config || provider.name === 'stub') {
+    return generateForTask(provider, task, referenceImage, onStage);
+  }
+
+  const upstream = getUpstreamOptions(env);
+  const deadline = Date.now() + TIME_BUDGET_MS;
+  let best: { result: GenerationResult; scores: FidelityScores } | null = null;
+  let attempts = 0;
+
+  while (attempts < config.maxAttempts) {
+    if (best && deadline - Date.now() < ATTEMPT_RESERVE_MS) {
+      console.log(`[Fidelity] Task ${task.id} out of time budget after ${attempts} attempts, keeping best result`);
+      break;
+    }
+
+    let result: GenerationResult;
+    try {
+      result = await generateForTask(provider, task, referenceImage, onStage);
+    } catch (error) {
+      // 首次生成失败按正常流程处理；重新生成失败时保留已有的最好结果
+      if (!best) throw error;
+      console.error(`[Fidelity] Regeneration failed for task ${task.id}, keeping best result:`, error);
+      break;
+    }
+    attempts++;
+
+    const scores = await scoreFidelity(env.GEMINI_API_KEY, referenceImage, result.imageData, upstream, audit);
+    if (!scores) {
+      // 无法质检：直接使用本次结果，不记录分数
+      return best ? withReport(best.result, best.scores, config, attempts) : result;
+    }
+    await onStage?.('fidelity_checked');
+    console.log(`[Fidelity] Task ${task.id} attempt ${attempts}: overall ${scores.overall} (threshold ${config.threshold})`);
+
+    if (!best || scores.overall > best.scores.overall) {
+      best = { result, scores };
+    }
+    if (scores.overall >= config.threshold) break;
+  }
+
+  return withReport(best!.result, best!.scores, config, attempts);
+}
+
+function withReport(
+  result: GenerationResult,
+  scores: FidelityScores,
+  config: FidelityConfig,
+  attempts: number
+): GenerationResult {
+  const fidelity: FidelityReport = {
+    ...scores,
+    passed: scores.overall >= config.threshold,
+    threshold: config.threshold,
+    attempts,
+    model: QA_MODEL
+  };
+  return { ...result, saveConfig: { ...result.saveConfig, fidelity } };
+}
@@ -1,6 +1,12 @@
-// Gemini REST API 直接调用（兼容 Cloudflare Workers）
+// 眼镜商业摄影提示词与生图逻辑（通过 ImageProvider 调用后端）
+import type { ImageProvider, ReferenceImage } from './providers';
+import { callGeminiAPI, extractTextFromResponse } from './providers/gemini';
+import type { UpstreamOptions } from './providers/gemini';
+import { InvalidImageError } from './errors';
+import { sniffBase64MimeType } from './uploads';
 
-const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+// 默认生图模型（任务未记录模型时使用）
+const IMAGE_MODEL = 'gemini-3-pro-image-preview';
 
 const ATMOSPHERE_ENHANCEMENT: Record<string, string> = {
   'High-Fashion Edge': "Editorial avant-garde styling, high-contrast shadows, sharp silhouettes, urban brutalist background. Cold color temperature.",
@@ -80,119 +86,6 @@ const GENDER_MODEL_SPECS: Record<string, { model: string; features: string; styl
   }
 };
 
-interface GeminiResponse {
-  candidates?: Array<{
-    content?: {
-      parts?: Array<{
-        text?: string;
-        inlineData?: {
-          mimeType: string;
-          data: string;
-        };
-      }>;
-    };
-  }>;
-  error?: {
-    message: string;
-    code: number;
-  };
-}
-
-/**
- * 调用 Gemini REST API
- */
-async function callGeminiAPI(
-  apiKey: string,
-  model: string,
-  contents: any,
-  config?: {
-    systemInstruction?: string;
-    responseMimeType?: string;
-    temperature?: number;
-    imageConfig?: {
-      aspectRatio?: string;
-      imageSize?: string;
-    };
-  }
-): Promise<GeminiResponse> {
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY 未配置');
-  }
-
-  // 使用 Header 传递 API Key，避免在 URL 中暴露（更安全，不会被日志记录）
-  const url = `${GEMINI_API_BASE}/${model}:generateContent`;
-
-  const requestBody: any = {
-    contents: [{ parts: contents.parts }]
-  };
-
-  // 添加系统指令
-  if (config?.systemInstruction) {
-    requestBody.systemInstruction = {
-      parts: [{ text: config.systemInstruction }]
-    };
-  }
-
-  // 添加生成配置
-  const generationConfig: any = {};
-  if (config?.responseMimeType) {
-    generationConfig.responseMimeType = config.responseMimeType;
-  }
-  if (config?.temperature !== undefined) {
-    generationConfig.temperature = config.temperature;
-  }
-  // 图片生成配置
-  if (config?.imageConfig) {
-    generationConfig.responseModalities = ['IMAGE', 'TEXT'];
-    // Gemini 1.5/Thinking models sometimes don't support aspectRatio in generationConfig
-    // We rely on the prompt to specify aspect ratio if needed, or use specific model capabilities
-  }
-  if (Object.keys(generationConfig).length > 0) {
-    requestBody.generationConfig = generationConfig;
-  }
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-goog-api-key': apiKey  // API Key 在 Header 中传递，不会被 URL 日志记录
-    },
-    body: JSON.stringify(requestBody)
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`[Gemini API Error] Status: ${response.status}, Body: ${errorText}`);
-    throw new Error(`Gemini API 请求失败 (${response.status}): ${errorText}`);
-  }
-
-  return response.json();
-}
-
-/**
- * 从响应中提取图片数据
- */
-function extractImageFromResponse(response: GeminiResponse): string {
-  if (response.candidates?.[0]?.content?.parts) {
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-  }
-  throw new Error("响应中未找到图片数据");
-}
-
-/**
- * 从响应中提取文本
- */
-function extractTextFromResponse(response: GeminiResponse): string | null {
-  if (response.candidates?.[0]?.content?.parts?.[0]?.text) {
-    return response.candidates[0].content.parts[0].text;
-  }
-  return null;
-}
-
 interface ModelConfig {
   framing: string;
   scene: string;
@@ -210,13 +103,13 @@ interface ModelConfig {
  * 生成眼镜模特图
  */
 export async function generateEyewearImage(
-  apiKey: string,
-  imageBase64: string,
+  provider: ImageProvider,
+  referenceImage: ReferenceImage,
   size: string,
   modelConfig: ModelConfig,
-  gender: string = 'female'
+  gender: string = 'female',
+  model: string = IMAGE_MODEL
 ): Promise<string> {
-  const model = 'gemini-3-pro-image-preview';
 
   const atmosphericContext = ATMOSPHERE_ENHANCEMENT[modelConfig.modelVibe] || "";
   const genderSpec = GENDER_MODEL_SPECS[gender] || GENDER_MODEL_SPECS.female;
@@ -248,55 +141,35 @@ export async function generateEyewearImage(
   - Final Finish: ${modelConfig.mood}, skin texture set to ${modelConfig.skinTexture}.
   `;
 
-  const response = await callGeminiAPI(
-    apiKey,
+  return provider.generateImage({
     model,
-    {
-      parts: [
-        { inlineData: { mimeType: "image/jpeg", data: imageBase64 } },
-        { text: DEVELOPER_PROMPT + "\n" + userPrompt }
-      ]
-    },
-    {
-      systemInstruction: SYSTEM_INSTRUCTION,
-      imageConfig: {
-        aspectRatio: modelConfig.aspectRatio,
-        imageSize: size
-      }
-    }
-  );
-
-  return extractImageFromResponse(response);
+    prompt: DEVELOPER_PROMPT + "\n" + userPrompt,
+    referenceImage,
+    systemInstruction: SYSTEM_INSTRUCTION,
+    aspectRatio: modelConfig.aspectRatio,
+    imageSize: size
+  });
 }
 
 /**
  * 生成海报图
  */
 export async function generatePosterImage(
-  apiKey: string,
-  imageBase64: string,
+  provider: ImageProvider,
+  referenceImage: ReferenceImage,
   config: { title: string; layout: string; material: string },
   size: string,
-  aspectRatio: string = '3:4'
+  aspectRatio: string = '3:4',
+  model: string = IMAGE_MODEL
 ): Promise<string> {
-  const model = 'gemini-3-pro-image-preview';
-
-  const response = await callGeminiAPI(
-    apiKey,
+  return provider.generateImage({
     model,
-    {
-      parts: [
-        { inlineData: { mimeType: "image/jpeg", data: imageBase64 } },
-        { text: `Create a luxury eyewear poster. Title: "${config.title}". Style: ${config.layout}. Material: ${config.material}.` }
-      ]
-    },
-    {
-      systemInstruction: "You are a luxury brand graphic designer. 100% product fidelity is mandatory. Ensure lens transparency is physically correct.",
-      imageConfig: { aspectRatio, imageSize: size }
-    }
-  );
-
-  return extractImageFromResponse(response);
+    prompt: `Create a luxury eyewear poster. Title: "${config.title}". Style: ${config.layout}. Material: ${config.material}.`,
+    referenceImage,
+    systemInstruction: "You are a luxury brand graphic designer. 100% product fidelity is mandatory. Ensure lens transparency is physically correct.",
+    aspectRatio,
+    imageSize: size
+  });
 }
 
 /**
@@ -305,14 +178,15 @@ export async function generatePosterImage(
 export async function getPromptSuggestions(
   apiKey: string,
   mode: string,
-  imageBase64?: string
+  imageBase64?: string,
+  upstream: UpstreamOptions = {}
 ): Promise<string[]> {
   const parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> = [];
 
   if (imageBase64) {
     parts.push({
       inlineData: {
-        mimeType: "image/jpeg",
+        mimeType: sniffBase64MimeType(imageBase64),
         data: imageBase64
       }
     });
@@ -327,7 +201,8 @@ export async function getPromptSuggestions(
       apiKey,
       'gemini-3-flash-preview',
       { parts },
-      { responseMimeType: "application/json" }
+      { responseMimeType: "application/json" },
+      upstream
     );
 
     const text = extractTextFromResponse(response);
@@ -353,12 +228,13 @@ function getDefaultSuggestions(): string[] {
  * 使用模板提示词生成图片
  */
 export async function generateFromTemplate(
-  apiKey: string,
-  eyewearImageBase64: string,
+  provider: ImageProvider,
+  referenceImage: ReferenceImage,
   templatePrompt: string,
-  aspectRatio: string = '3:4'
+  aspectRatio: string = '3:4',
+  size: string = '1K',
+  model: string = IMAGE_MODEL
 ): Promise<string> {
-  const model = 'gemini-3-pro-image-preview';
 
   const fullPrompt = `
 ${SYSTEM_INSTRUCTION}
@@ -389,30 +265,19 @@ ${templatePrompt}
 - Sharp focus on the eyewear product
 `;
 
-  const response = await callGeminiAPI(
-    apiKey,
+  const imageData = await provider.generateImage({
     model,
-    {
-      parts: [
-        { inlineData: { mimeType: "image/jpeg", data: eyewearImageBase64 } },
-        { text: fullPrompt }
-      ]
-    },
-    {
-      imageConfig: {
-        aspectRatio: aspectRatio,
-        imageSize: '1K'
-      }
-    }
-  );
-
-  const imageData = extractImageFromResponse(response);
+    prompt: fullPrompt,
+    referenceImage,
+    aspectRatio: aspectRatio,
+    imageSize: size
+  });
 
   // 验证图片数据
   const base64Part = imageData.split(',')[1];
   if (!base64Part || base64Part.length < 100) {
     console.error('[Gemini] Image data too small or empty');
-    throw new Error("INVALID_IMAGE_DATA_TOO_SMALL");
+    throw new InvalidImageError("INVALID_IMAGE_DATA_TOO_SMALL");
   }
 
   console.log(`[Gemini] Generated image size: ${(base64Part.length / 1024).toFixed(2)} KB`);
@@ -424,7 +289,8 @@ ${templatePrompt}
  */
 export async function optimizePrompt(
   apiKey: string,
-  rawPrompt: string
+  rawPrompt: string,
+  upstream: UpstreamOptions = {}
 ): Promise<{
   name: string;
   description: string;
@@ -488,7 +354,8 @@ Return ONLY valid JSON:
       systemInstruction: systemPrompt,
       responseMimeType: "application/json",
       temperature: 0.2
-    }
+    },
+    upstream
   );
 
   const text = extractTextFromResponse(response);
@@ -599,18 +466,18 @@ Examples of what different angles look like:
  * 生成白色背景产品图
  */
 export async function generateProductShot(
-  apiKey: string,
-  eyewearImageBase64: string,
+  provider: ImageProvider,
+  referenceImage: ReferenceImage,
   angle: string,
   config: {
     backgroundColor: string;
     reflectionEnabled: boolean;
     shadowStyle: string;
     aspectRatio: string;
-  }
+    outputSize: string;
+  },
+  model: string = IMAGE_MODEL
 ): Promise<string> {
-  const model = 'gemini-3-pro-image-preview';
-
   const angleDescription = PRODUCT_ANGLE_PROMPTS[angle] || PRODUCT_ANGLE_PROMPTS['front'];
   const backgroundDescription = BACKGROUND_STYLES[config.backgroundColor] || BACKGROUND_STYLES['pure_white'];
 
@@ -685,31 +552,20 @@ ${reflectionDescription}
 OUTPUT: A single, pristine product image suitable for luxury e-commerce catalog and brand website.
 `;
 
-  const response = await callGeminiAPI(
-    apiKey,
+  const imageData = await provider.generateImage({
     model,
-    {
-      parts: [
-        { inlineData: { mimeType: "image/jpeg", data: eyewearImageBase64 } },
-        { text: userPrompt }
-      ]
-    },
-    {
-      systemInstruction: PRODUCT_SHOT_SYSTEM_INSTRUCTION,
-      imageConfig: {
-        aspectRatio: config.aspectRatio,
-        imageSize: '1K'
-      }
-    }
-  );
-
-  const imageData = extractImageFromResponse(response);
+    prompt: userPrompt,
+    referenceImage,
+    systemInstruction: PRODUCT_SHOT_SYSTEM_INSTRUCTION,
+    aspectRatio: config.aspectRatio,
+    imageSize: config.outputSize
+  });
 
   // 验证图片数据
   const base64Part = imageData.split(',')[1];
   if (!base64Part || base64Part.length < 100) {
     console.error('[Gemini] Product shot image data too small or empty');
-    throw new Error("INVALID_IMAGE_DATA_TOO_SMALL");
+    throw new InvalidImageError("INVALID_IMAGE_DATA_TOO_SMALL");
   }
 
   console.log(`[Gemini] Generated product shot (${angle}): ${(base64Part.length / 1024).toFixed(2)} KB`);
@@ -0,0 +1,210 @@
+/**
+ * 生成服务
+ *
+ * 把任务输入（task.inputData）映射到具体的生图函数，并负责保存结果。
+ * processTask 与同步的 /api/generate/* 接口共用这一套逻辑。
+ */
+
+import { imageDb, promptHistoryDb } from './db';
+import { generateEyewearImage, generatePosterImage, generateFromTemplate, generateProductShot } from './gemini';
+import { saveImage } from './storage';
+import type { ImageProvider, ReferenceImage } from './providers';
+import { withStageReporting } from './progress';
+import type { StageReporter } from './progress';
+import { IMAGE_SIZES, MODEL_IMAGE_SIZES, TIER_CONFIGS } from './types';
+import type { Env, ImageSize, ModelConfig, Task, UserTier } from './types';
+
+// 单张图片的生成结果（尚未保存）
+export interface GenerationResult {
+  imageData: string;
+  imageType: string;
+  saveConfig: Record<string, unknown>;
+  savePrompt: string | null;
+}
+
+// 保存后的图片信息
+export interface SavedImage {
+  imageId: string;
+  imageUrl: string;
+  thumbnailUrl: string | null;
+  mediumUrl: string | null;
+}
+
+const TIER_LABELS: Record<UserTier, string> = {
+  free: '免费',
+  pro: 'Pro',
+  ultra: 'Ultra'
+};
+
+// 满足条件的等级，用于升级提示（如 "Pro 或 Ultra"）
+function tiersWhere(predicate: (generation: typeof TIER_CONFIGS[UserTier]['generation']) => boolean): string {
+  return (Object.keys(TIER_CONFIGS) as UserTier[])
+    .filter(tier => predicate(TIER_CONFIGS[tier].generation))
+    .map(tier => TIER_LABELS[tier])
+    .join(' 或 ');
+}
+
+/**
+ * 按用户等级确定生图模型与输出尺寸（未指定时使用等级的默认值）
+ * @returns 校验通过返回模型与尺寸，超出等级权限时返回升级提示
+ */
+export function resolveGenerationOptions(
+  tier: UserTier,
+  requested: { model?: unknown; imageSize?: unknown }
+): { model: string; imageSize: ImageSize } | { error: string; status: 400 | 403 } {
+  const limits = TIER_CONFIGS[tier].generation;
+
+  const model = (requested.model || limits.models[0]) as string;
+  if (!limits.models.includes(model)) {
+    const tiers = tiersWhere(g => g.models.includes(model));
+    return tiers
+      ? { error: `${model} 模型需要升级到 ${tiers} 会员`, status: 403 }
+      : { error: `不支持的模型：${model}`, status: 400 };
+  }
+  const modelSizes = MODEL_IMAGE_SIZES[model] || ['1K'];
+
+  // 未指定尺寸时使用等级默认值，但不超过模型能输出的最大尺寸
+  const imageSize = (requested.imageSize
+    || modelSizes.filter(size => IMAGE_SIZES.indexOf(size) <= IMAGE_SIZES.indexOf(limits.defaultQuality)).pop()
+    || modelSizes[0]) as ImageSize;
+  if (!IMAGE_SIZES.includes(imageSize)) {
+    return { error: `不支持的输出尺寸：${imageSize}（可选 ${IMAGE_SIZES.join(' / ')}）`, status: 400 };
+  }
+  if (IMAGE_SIZES.indexOf(imageSize) > IMAGE_SIZES.indexOf(limits.maxImageSize)) {
+    const tiers = tiersWhere(g => IMAGE_SIZES.indexOf(imageSize) <= IMAGE_SIZES.indexOf(g.maxImageSize));
+    return {
+      error: `您的等级最高支持 ${limits.maxImageSize} 输出，${imageSize} 需要升级到 ${tiers} 会员`,
+      status: 403
+    };
+  }
+  if (!modelSizes.includes(imageSize)) {
+    return { error: `${model} 模型不支持 ${imageSize} 输出（可选 ${modelSizes.join(' / ')}）`, status: 400 };
+  }
+
+  return { model, imageSize };
+}
+
+/**
+ * 根据任务输入调用对应的生图函数
+ */
+export async function generateForTask(
+  provider: ImageProvider,
+  task: Pick<Task, 'type' | 'inputData'>,
+  referenceImage: ReferenceImage,
+  onStage?: StageReporter
+): Promise<GenerationResult> {
+  const input = task.inputData;
+  if (onStage) {
+    provider = withStageReporting(provider, onStage);
+  }
+  // 创建任务时已按等级校验；旧任务未记录模型时使用默认模型
+  const model = input.model as string | undefined;
+
+  // 产品图（单角度）
+  if (task.type === 'product_shot') {
+    const angle = input.angle as string;
+    const config = input.config as {
+      backgroundColor: string;
+      reflectionEnabled: boolean;
+      shadowStyle: string;
+      outputSize: string;
+      aspectRatio: string;
+    };
+
+    console.log(`[ProductShot] Generating angle: ${angle} (${config.outputSize || '1K'})`);
+
+    const imageData = await generateProductShot(provider, referenceImage, angle, {
+      backgroundColor: config.backgroundColor,
+      reflectionEnabled: config.reflectionEnabled,
+      shadowStyle: config.shadowStyle,
+      aspectRatio: config.aspectRatio,
+      outputSize: config.outputSize || '1K'
+    }, model);
+
+    return { imageData, imageType: 'product_shot', saveConfig: { angle, ...config }, savePrompt: null };
+  }
+
+  // 1. Model Config based generation (Eyewear)
+  if (input.modelConfig) {
+    const modelConfig = input.modelConfig as ModelConfig;
+    const size = (input.imageQuality as string) || '1K';
+    const gender = (input.gender as string) || 'female';
+
+    const imageData = await generateEyewearImage(provider, referenceImage, size, modelConfig, gender, model);
+    return { imageData, imageType: 'eyewear', saveConfig: { ...modelConfig }, savePrompt: null };
+  }
+
+  // 2. Poster generation
+  if (input.posterConfig) {
+    const posterConfig = input.posterConfig as { title: string; layout: string; material: string };
+    const size = (input.imageQuality as string) || '1K';
+    const aspectRatio = (input.aspectRatio as string) || '3:4';
+
+    const imageData = await generatePosterImage(provider, referenceImage, posterConfig, size, aspectRatio, model);
+    return { imageData, imageType: 'poster', saveConfig: { ...posterConfig }, savePrompt: null };
+  }
+
+  // 3. Prompt based generation (Template or Custom)
+  if (input.prompt) {
+    const prompt = input.prompt as string;
+    const aspectRatio = (input.aspectRatio as string) || '3:4';
+    const size = (input.imageQuality as string) || '1K';
+
+    const imageData = await generateFromTemplate(provider, referenceImage, prompt, aspectRatio, size, model);
+    const saveConfig: Record<string, unknown> = {
+      templateId: input.templateId,
+      templateName: input.templateName,
+      variableValues: input.variableValues,
+      customPrompt: !input.templateId
+    };
+    if (input.parentImageId) {
+      saveConfig.parentImageId = input.parentImageId;
+    }
+    return { imageData, imageType: 'template', saveConfig, savePrompt: prompt };
+  }
+
+  throw new Error('Invalid task input: missing prompt, modelConfig or posterConfig');
+}
+
+/**
+ * 保存生成结果到 R2 + D1，并记录提示词历史
+ */
+export async function saveGenerationResult(
+  env: Env,
+  userId: number,
+  task: Pick<Task, 'inputData'>,
+  result: GenerationResult,
+  onStage?: StageReporter
+): Promise<SavedImage> {
+  const input = task.inputData;
+  const imageId = crypto.randomUUID();
+  const { url, thumbnailUrl, mediumUrl } = await saveImage(
+    env.R2, result.imageData, userId, imageId, env.IMAGES,
+    onStage && (() => onStage('stored'))
+  );
+  await onStage?.('thumbnails_built');
+
+  await imageDb.save(env.DB, {
+    id: imageId,
+    url,
+    thumbnailUrl,
+    mediumUrl,
+    type: result.imageType,
+    config: result.saveConfig,
+    prompt: result.savePrompt
+  }, userId, input.parentImageId as string | undefined);
+
+  // Save prompt history if not custom
+  if (result.savePrompt && input.templateId && input.templateId !== 'custom') {
+    await promptHistoryDb.save(
+      env.DB,
+      userId,
+      result.savePrompt,
+      input.templateId as string,
+      (input.variableValues as Record<string, unknown>) || {},
+      true
+    );
+  }
+
+  return { imageId, imageUrl: url, thumbnailUrl, mediumUrl };
+}
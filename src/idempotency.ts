@@ -0,0 +1,70 @@
+import type { Context, Next } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { idempotencyDb } from './db';
+import type { Env, Session } from './types';
+
+// 首次响应保存 24 小时
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+// 处理中的记录超过该时间视为请求已中断，允许重新执行
+const IDEMPOTENCY_LOCK_SECONDS = 10 * 60;
+const MAX_KEY_LENGTH = 255;
+
+type IdempotencyContext = Context<{ Bindings: Env; Variables: { user: Session } }>;
+
+async function hashRequest(c: IdempotencyContext): Promise<string> {
+  const body = await c.req.text();
+  const data = new TextEncoder().encode(`${c.req.method} ${c.req.path}\n${body}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Idempotency-Key 中间件（放在 authMiddleware 之后）
+ *
+ * 带相同键的重试直接返回首次请求的响应（响应头 Idempotent-Replayed: true），不会重复创建任务或扣除配额。
+ * 只保存非 5xx 响应；服务端错误会释放该键，客户端可用同一个键重试。
+ */
+export function idempotency() {
+  return async (c: IdempotencyContext, next: Next) => {
+    const key = c.req.header('Idempotency-Key');
+    if (!key) {
+      await next();
+      return;
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+      return c.json({ error: 'Idempotency-Key 过长' }, 400);
+    }
+
+    const userId = c.get('user').userId ?? 0;
+    const requestHash = await hashRequest(c);
+    const existing = await idempotencyDb.begin(
+      c.env.DB, userId, key, requestHash, IDEMPOTENCY_TTL_SECONDS, IDEMPOTENCY_LOCK_SECONDS
+    );
+
+    if (existing) {
+      if (existing.requestHash !== requestHash) {
+        return c.json({ error: 'Idempotency-Key 已用于其他请求' }, 422);
+      }
+      if (existing.status !== 'completed' || existing.responseStatus === null) {
+        return c.json({ error: '相同的请求正在处理中，请稍后再试' }, 409);
+      }
+      return c.body(existing.responseBody ?? '', existing.responseStatus as ContentfulStatusCode, {
+        'Content-Type': 'application/json; charset=UTF-8',
+        'Idempotent-Replayed': 'true'
+      });
+    }
+
+    try {
+      await next();
+    } catch (error) {
+      await idempotencyDb.release(c.env.DB, userId, key);
+      throw error;
+    }
+
+    if (c.res.status >= 500) {
+      await idempotencyDb.release(c.env.DB, userId, key);
+    } else {
+      await idempotencyDb.complete(c.env.DB, userId, key, c.res.status, await c.res.clone().text());
+    }
+  };
+}
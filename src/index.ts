@@ -1,7 +1,8 @@
 import { Hono, Context, Next } from 'hono';
 import { cors } from 'hono/cors';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
 import { zValidator } from '@hono/zod-validator';
-import type { Env, Session, QueueMessage } from './types';
+import type { Env, Session, QueueMessage, Task } from './types';
 import { TIER_CONFIGS } from './types';
 import {
   registerSchema, loginSchema, changePasswordSchema,
@@ -16,18 +17,35 @@ import {
 type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
 import {
   tagDb, templateDb, userDb, sessionDb, imageDb, assetDb,
-  favoriteDb, promptHistoryDb, feedbackDb, taskDb, statsDb
+  favoriteDb, promptHistoryDb, feedbackDb, taskDb, statsDb, creditDb, inputImageDb, uploadDb,
+  notificationDb, deadLetterDb, taskEventDb, idempotencyDb
 } from './db';
+import { imageCreditCost, batchCreditCost } from './credits';
+import { resolveGenerationOptions } from './generation';
+import { base64ToBytes, validateUpload } from './uploads';
+import { enforceImageRetention, hasPendingRetention, sendExpiryWarnings } from './retention';
+import {
+  createUrlSigner, verifySignedUrl, revokeSignedUrls, signImageFields, isPrivateImageKey
+} from './signedUrls';
 import {
   register, login, logout, changePassword, validateSession, extractToken
 } from './auth';
-import { saveImage, deleteImage, saveAsset, deleteAsset, getImage, saveThumbnail, cleanupOldImages, cleanupOrphanedAssets } from './storage';
 import {
-  generateEyewearImage, generatePosterImage, getPromptSuggestions,
-  generateFromTemplate, optimizePrompt, generateProductShot
-} from './gemini';
-import { processTask, processPendingTasks, processBatchTasks } from './task_processor';
+  deleteImage, saveAsset, deleteAsset, getImage, saveThumbnail, cleanupOrphanedAssets,
+  saveInputImage, cleanupUnreferencedInputs
+} from './storage';
+import { getPromptSuggestions, optimizePrompt } from './gemini';
+import { getImageProvider, getUpstreamOptions } from './providers';
+import { createCircuitBreakerClient } from './providers/breaker';
+import { createUpstreamGovernorClient } from './providers/governor';
+import { createApiKeyPoolClient } from './providers/keyPool';
+import { GenerationError, QuotaExceededError, UpstreamUnavailableError, errorClass } from './errors';
+import { processTask, processNextTask, processPendingTasks, processBatchTasks, failTask } from './task_processor';
+import { getUserChannel, publishTaskEvent } from './events';
+import type { StreamRequest } from './do/UserChannel';
+import type { DeadLetterStatus } from './db';
 import { rateLimit } from './rateLimit';
+import { idempotency } from './idempotency';
 import {
   createCheckoutSession, createPortalSession, handleWebhookEvent,
   verifyWebhookSignature, getSubscriptionStatus, TIER_PRICES
@@ -62,8 +80,11 @@ app.use('*', cors({
     return null;
   },
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'x-goog-api-key'],
-  exposeHeaders: ['Content-Length', 'X-Kuma-Revision'],
+  allowHeaders: ['Content-Type', 'Authorization', 'x-goog-api-key', 'Idempotency-Key'],
+  exposeHeaders: [
+    'Content-Length', 'X-Kuma-Revision', 'Idempotent-Replayed',
+    'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'
+  ],
   maxAge: 600,
   credentials: true,
 }));
@@ -72,13 +93,12 @@ app.use('*', cors({
 app.onError((err, c) => {
   console.error(`[Global Error] ${c.req.method} ${c.req.path}:`, err);
 
-  // 区分不同类型的错误
-  if (err.message.includes('GEMINI_API_KEY')) {
-    return c.json({ error: 'API 配置错误，请联系管理员' }, 500);
-  }
-  if (err.message.includes('Gemini API')) {
-    return c.json({ error: 'AI 服务暂时不可用，请稍后重试' }, 503);
+  // 生成链路的结构化错误
+  if (err instanceof GenerationError) {
+    return generationErrorResponse(c, err);
   }
+
+  // 区分不同类型的错误
   if (err.message.includes('D1') || err.message.includes('database')) {
     return c.json({ error: '数据库错误，请稍后重试' }, 500);
   }
@@ -90,6 +110,19 @@ app.onError((err, c) => {
   return c.json({ error: '服务器内部错误' }, 500);
 });
 
+/**
+ * 生成错误响应：使用错误自带的状态码与用户提示；上游给出重试间隔时附带 Retry-After
+ */
+function generationErrorResponse(c: Context, err: GenerationError, extra: Record<string, unknown> = {}) {
+  const retryAfterMs = err instanceof QuotaExceededError || err instanceof UpstreamUnavailableError
+    ? err.retryAfterMs
+    : null;
+  if (retryAfterMs) {
+    c.header('Retry-After', String(Math.max(1, Math.ceil(retryAfterMs / 1000))));
+  }
+  return c.json({ error: err.userMessage, code: err.code, ...extra }, err.httpStatus);
+}
+
 // 404 处理
 app.notFound((c) => {
   return c.json({ error: '接口不存在' }, 404);
@@ -111,6 +144,39 @@ const authMiddleware = async (c: AppContext, next: Next) => {
   await next();
 };
 
+// 长连接（WebSocket / SSE）认证中间件
+// 浏览器无法为 WebSocket / EventSource 设置 Authorization，token 可通过 query 或子协议（Sec-WebSocket-Protocol: bearer, <token>）传入
+const streamAuthMiddleware = async (c: AppContext, next: Next) => {
+  const protocols = (c.req.header('Sec-WebSocket-Protocol') || '').split(',').map(p => p.trim());
+  const token = c.req.query('token')
+    || (protocols[0] === 'bearer' ? protocols[1] : null)
+    || extractToken(c.req.header('Authorization'));
+  if (!token) {
+    return c.json({ error: '未登录' }, 401);
+  }
+
+  const session = await validateSession(c.env.DB, c.env.SESSION_KV, token);
+  if (!session) {
+    return c.json({ error: 'Session 已过期，请重新登录' }, 401);
+  }
+
+  c.set('user', session);
+  await next();
+};
+
+// SSE 请求允许 query token，其余请求（如任务审计时间线）只接受 Authorization 头，避免 token 出现在普通 URL 中
+const isEventStreamRequest = (c: AppContext) => (c.req.header('Accept') || '').includes('text/event-stream');
+const eventsAuthMiddleware = async (c: AppContext, next: Next) =>
+  isEventStreamRequest(c) ? streamAuthMiddleware(c, next) : authMiddleware(c, next);
+
+// WebSocket 升级检查
+const websocketMiddleware = async (c: AppContext, next: Next) => {
+  if (c.req.header('Upgrade') !== 'websocket') {
+    return c.text('Expected Upgrade: websocket', 426);
+  }
+  await next();
+};
+
 // 管理员中间件
 const adminMiddleware = async (c: AppContext, next: Next) => {
   const token = extractToken(c.req.header('Authorization'));
@@ -131,111 +197,195 @@ const adminMiddleware = async (c: AppContext, next: Next) => {
   await next();
 };
 
-// ========== 私有图片鉴权缓存 ==========
-const AUTH_CACHE_TTL = 5 * 60; // 5分钟
+// ========== 任务派发 ==========
 
-interface AuthCacheResult {
-  userId: number;
-  isAllowed: boolean;
-}
+// 与 wrangler.toml 中 dead_letter_queue 一致
+const DEAD_LETTER_QUEUE = 'generation-dlq';
 
-// 检查鉴权缓存
-async function checkAuthCache(token: string, imageId: string): Promise<AuthCacheResult | null> {
-  const cache = caches.default;
-  const cacheKey = new Request(`https://auth-cache/${token}/${imageId}`);
-  const cached = await cache.match(cacheKey);
-  if (cached) {
-    return cached.json();
+/**
+ * 将任务发送到 Cloudflare Queue；未配置 Queue 时回退到直接处理
+ */
+async function dispatchTask(c: AppContext, taskId: string, type: QueueMessage['type']): Promise<void> {
+  if (c.env.GENERATION_QUEUE) {
+    await c.env.GENERATION_QUEUE.send({
+      taskId,
+      type,
+      timestamp: Date.now()
+    });
+  } else {
+    // 回退到直接处理（开发环境或 Queue 未配置）
+    c.executionCtx.waitUntil(processTask(c.env, taskId));
   }
-  return null;
 }
 
-// 设置鉴权缓存
-async function setAuthCache(token: string, imageId: string, result: AuthCacheResult): Promise<void> {
-  const cache = caches.default;
-  const cacheKey = new Request(`https://auth-cache/${token}/${imageId}`);
-  const response = new Response(JSON.stringify(result), {
-    headers: { 'Cache-Control': `max-age=${AUTH_CACHE_TTL}` }
-  });
-  await cache.put(cacheKey, response);
+/**
+ * 保存已校验的参考图到 R2（按内容去重）并记录引用
+ */
+async function storeInputImage(c: AppContext, bytes: Uint8Array, mimeType: string) {
+  const saved = await saveInputImage(c.env.R2, bytes, mimeType);
+  await inputImageDb.touch(c.env.DB, saved.key, saved.mimeType, saved.size);
+  return saved;
 }
 
-// ========== R2 静态文件服务 (带访问控制) ==========
-// 用户生成的图片通过 token 验证访问权限
-app.get('/r2/*', async (c) => {
-  const key = c.req.path.slice(4); // 去掉 /r2/ 前缀
+/**
+ * 解析任务参考图：优先使用 uploadId（POST /api/uploads 返回），兼容旧的 imageBase64
+ * 任务 input 中只保存 R2 key
+ */
+async function resolveInputImage(
+  c: AppContext,
+  imageBase64: string | undefined,
+  uploadId: string | undefined
+): Promise<{ key: string } | { error: string; status: ContentfulStatusCode }> {
+  const user = c.get('user');
 
-  // 判断是否是用户生成的图片（需要访问控制）
-  const isUserImage = key.startsWith('images/');
+  if (uploadId) {
+    const upload = await uploadDb.getById(c.env.DB, uploadId, user.userId ?? 0);
+    if (!upload) {
+      return { error: '上传文件不存在或已过期，请重新上传', status: 404 };
+    }
+    // 刷新引用时间，避免任务创建前被垃圾回收
+    await inputImageDb.touch(c.env.DB, upload.inputKey, upload.mimeType, upload.size);
+    return { key: upload.inputKey };
+  }
 
-  if (isUserImage) {
-    // 从路径提取 imageId: images/{imageId}.png 或 images/{imageId}_thumb.webp
-    const filename = key.split('/').pop() || '';
-    const imageId = filename.split('.')[0].replace('_thumb', '');
+  if (!imageBase64) {
+    return { error: '缺少参考图(uploadId 或 imageBase64)', status: 400 };
+  }
 
-    // 查询图片信息
-    const image = await imageDb.getById(c.env.DB, imageId);
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(imageBase64);
+  } catch {
+    return { error: '参考图不是有效的 base64 数据', status: 400 };
+  }
 
-    if (!image) {
-      return c.json({ error: 'Image not found' }, 404);
-    }
+  const checked = validateUpload(bytes, user.tier || 'free');
+  if ('error' in checked) {
+    return checked;
+  }
 
-    // 如果图片不是公开的，需要验证身份
-    if (!image.isPublic) {
-      // 支持 query param 中的 token（用于 <img> 标签）
-      const queryToken = c.req.query('token');
-      const headerToken = extractToken(c.req.header('Authorization'));
-      const token = queryToken || headerToken;
+  const saved = await storeInputImage(c, bytes, checked.info.mimeType);
+  return { key: saved.key };
+}
 
-      if (!token) {
-        return c.json({ error: '需要登录才能查看此图片' }, 401);
-      }
+/**
+ * 同步生成接口的公共流程：校验等级权限 -> 扣配额 -> 创建 generate 任务 -> 等待结果或入队
+ */
+async function submitGenerateTask(c: AppContext, requested: Record<string, unknown>) {
+  const user = c.get('user');
+  const userId = user.userId ?? 0;
 
-      // 先检查鉴权缓存
-      const cachedAuth = await checkAuthCache(token, imageId);
+  const options = resolveGenerationOptions(user.tier || 'free', {
+    model: requested.model,
+    imageSize: requested.imageQuality
+  });
+  if ('error' in options) {
+    return c.json({ error: options.error }, options.status);
+  }
+  const input: Record<string, unknown> = { ...requested, model: options.model, imageQuality: options.imageSize };
 
-      if (cachedAuth) {
-        // 缓存命中
-        if (!cachedAuth.isAllowed) {
-          return c.json({ error: '无权查看此图片' }, 403);
-        }
-        // 缓存命中且有权访问，继续返回图片
-      } else {
-        // 缓存未命中，验证 session
-        const session = await validateSession(c.env.DB, c.env.SESSION_KV, token);
-        if (!session) {
-          return c.json({ error: '登录已过期' }, 401);
-        }
+  const taskId = crypto.randomUUID();
+  const cost = imageCreditCost(input.imageQuality as string | undefined);
+  const quotaResult = await userDb.consumeQuota(c.env.DB, userId, cost, taskId);
+  if (!quotaResult.success) {
+    return c.json({ error: quotaResult.error }, 403);
+  }
 
-        // 验证是否是图片所有者或管理员
-        const isAllowed = session.userId === image.userId || session.role === 'admin';
+  const created = await taskDb.create(c.env.DB, taskId, userId, 'generate', input, undefined, {
+    units: cost,
+    date: quotaResult.quotaDate!
+  });
+  await publishTaskEvent(c.env, created, 'created');
+
+  // 异步模式：与 /api/tasks/generate 行为一致
+  if (c.req.query('wait') === 'false') {
+    await dispatchTask(c, taskId, 'generate');
+    return c.json({ success: true, taskId, status: 'pending' });
+  }
 
-        // 异步写入缓存（不阻塞响应）
-        c.executionCtx.waitUntil(setAuthCache(token, imageId, {
-          userId: session.userId!,
-          isAllowed
-        }));
+  // 等待模式：在当前请求内直接处理任务（失败直接返回，不重新排队）
+  let failure: unknown = null;
+  await processTask(c.env, taskId, { retry: false, onError: error => { failure = error; } });
+  const task = await taskDb.getById(c.env.DB, taskId);
 
-        if (!isAllowed) {
-          return c.json({ error: '无权查看此图片' }, 403);
-        }
+  // 任务已被队列消费者认领：按异步模式返回，由客户端订阅结果
+  if (task && (task.status === 'pending' || task.status === 'processing')) {
+    return c.json({ success: true, taskId, status: task.status }, 202);
+  }
+
+  if (!task || task.status !== 'completed' || !task.outputData) {
+    // 结构化错误返回对应的状态码（内容拦截 422、上游限流 429 等）
+    if (failure instanceof GenerationError) {
+      return generationErrorResponse(c, failure, { taskId });
+    }
+    return c.json({
+      error: task?.errorMessage || '生成失败',
+      ...(failure ? { code: errorClass(failure) } : {}),
+      taskId
+    }, 500);
+  }
+
+  const output = await signImageFields(createUrlSigner(c.env), task.outputData);
+  return c.json({
+    success: true,
+    taskId,
+    imageUrl: output.imageUrl,
+    thumbnailUrl: output.thumbnailUrl,
+    mediumUrl: output.mediumUrl,
+    imageId: output.imageId,
+    parentImageId: input.parentImageId
+  });
+}
+
+// ========== R2 静态文件服务 (带访问控制) ==========
+// 私有图片（generated/{userId}/...）只能通过 API 签发的短期签名链接访问，无需 session；
+// 未签名的请求仅对公开作品放行
+app.get('/r2/*', async (c) => {
+  const key = c.req.path.slice(4); // 去掉 /r2/ 前缀
+
+  if (isPrivateImageKey(key)) {
+    const sig = c.req.query('sig');
+
+    if (sig) {
+      if (!c.env.IMAGE_URL_SECRET) {
+        console.error('[SignedUrl] IMAGE_URL_SECRET is not configured');
+        return c.json({ error: '图片服务暂不可用' }, 503);
+      }
+
+      const exp = c.req.query('exp');
+      const verified = await verifySignedUrl(c.env, key, { exp, v: c.req.query('v'), sig });
+      if (!verified.valid) {
+        return c.json({ error: verified.reason === 'expired' ? '图片链接已过期，请刷新' : '图片链接无效' }, 403);
       }
 
-      // 私有图片不缓存到 CDN
       const object = await getImage(c.env.R2, key);
       if (!object) {
         return c.json({ error: 'File not found' }, 404);
       }
 
+      // 私有图片只允许浏览器缓存到链接过期
+      const maxAge = Math.max(0, parseInt(exp!, 10) - Math.floor(Date.now() / 1000));
       const headers = new Headers();
       object.writeHttpMetadata(headers);
       headers.set('etag', object.httpEtag);
-      headers.set('Cache-Control', 'private, no-store');
+      headers.set('Cache-Control', `private, max-age=${maxAge}`);
       headers.set('Access-Control-Allow-Origin', '*');
-      headers.set('X-Auth-Cache', cachedAuth ? 'HIT' : 'MISS');
+      headers.set('Referrer-Policy', 'no-referrer');
 
       return new Response(object.body, { headers });
     }
+
+    // 从路径提取 imageId: generated/{userId}/{imageId}.png 或 {imageId}_thumb.webp / _medium.webp
+    const filename = key.split('/').pop() || '';
+    const imageId = filename.split('.')[0].replace(/_(thumb|medium)$/, '');
+
+    const image = await imageDb.getById(c.env.DB, imageId);
+    if (!image) {
+      return c.json({ error: 'Image not found' }, 404);
+    }
+    if (!image.isPublic) {
+      return c.json({ error: '需要登录才能查看此图片' }, 401);
+    }
   }
 
   // 公开图片或资源文件，使用 CDN 缓存
@@ -379,6 +529,9 @@ app.post('/api/auth/change-password',
         return c.json({ error: result.error }, 400);
       }
 
+      // 修改密码后，之前签发的图片链接一并失效
+      await revokeSignedUrls(c.env, user.userId!);
+
       return c.json({ success: true, message: '密码修改成功' });
     } catch (error) {
       console.error('Change password error:', error);
@@ -466,13 +619,46 @@ app.get('/api/user/quota', authMiddleware, async (c) => {
       return c.json({ error: '用户不存在' }, 404);
     }
 
-    return c.json({ success: true, ...quota });
+    const transactions = await creditDb.getTransactions(c.env.DB, user.userId, 20);
+    return c.json({ success: true, ...quota, transactions });
   } catch (error) {
     console.error('Get quota error:', error);
     return c.json({ error: '获取配额失败' }, 500);
   }
 });
 
+// 站内通知（图片过期提醒、保存期限变更等）
+app.get('/api/user/notifications', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user.userId) {
+      return c.json({ error: '用户未登录' }, 401);
+    }
+
+    const limit = Math.min(parseInt(c.req.query('limit') || '20', 10), 100);
+    const notifications = await notificationDb.getByUserId(c.env.DB, user.userId, limit);
+    return c.json({ success: true, notifications });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    return c.json({ error: '获取通知失败' }, 500);
+  }
+});
+
+app.post('/api/user/notifications/:id/read', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user.userId) {
+      return c.json({ error: '用户未登录' }, 401);
+    }
+
+    await notificationDb.markRead(c.env.DB, user.userId, parseInt(c.req.param('id')));
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    return c.json({ error: '操作失败' }, 500);
+  }
+});
+
 // 获取订阅状态
 app.get('/api/subscription/status', authMiddleware, async (c) => {
   try {
@@ -498,7 +684,7 @@ app.get('/api/subscription/prices', async (c) => {
 });
 
 // 创建 Checkout Session
-app.post('/api/subscription/checkout', authMiddleware, async (c) => {
+app.post('/api/subscription/checkout', authMiddleware, idempotency(), async (c) => {
   try {
     const user = c.get('user');
     if (!user.userId) {
@@ -734,11 +920,14 @@ app.post('/api/admin/cleanup-orphans', adminMiddleware, async (c) => {
 // ========== 管理仪表盘 API ==========
 app.get('/api/admin/dashboard/stats', adminMiddleware, async (c) => {
   try {
-    const [totalUsers, totalGenerations, totalTemplates, queueStats] = await Promise.all([
+    const governor = createUpstreamGovernorClient(c.env);
+    const [totalUsers, totalGenerations, totalTemplates, queueStats, upstream] = await Promise.all([
       statsDb.getTotalUsers(c.env.DB),
       statsDb.getTotalGenerations(c.env.DB),
       statsDb.getTotalTemplates(c.env.DB),
-      taskDb.getQueueStats(c.env.DB)
+      taskDb.getQueueStats(c.env.DB),
+      // 上游请求预算的利用率（未配置调度器时为 null）
+      governor ? governor.getStatus().catch(() => null) : null
     ]);
 
     return c.json({
@@ -747,7 +936,8 @@ app.get('/api/admin/dashboard/stats', adminMiddleware, async (c) => {
         totalUsers,
         totalGenerations,
         totalTemplates,
-        queueStats
+        queueStats,
+        upstream
       }
     });
   } catch (error: any) {
@@ -801,206 +991,560 @@ app.get('/api/admin/dashboard/trends', adminMiddleware, async (c) => {
   }
 });
 
-// ========== AI 生成 API ==========
-app.post('/api/generate/eyewear', rateLimit(10, 60 * 1000), authMiddleware, async (c) => {
-  try {
-    const user = c.get('user');
-    const { imageBase64, size, modelConfig } = await c.req.json();
-
-    if (!imageBase64 || !modelConfig) {
-      return c.json({ error: '缺少必要参数' }, 400);
-    }
-
-    const result = await generateEyewearImage(c.env.GEMINI_API_KEY, imageBase64, size || '1K', modelConfig);
-
-    // 保存图片到 R2
-    const imageId = crypto.randomUUID();
-    const { url, thumbnailUrl } = await saveImage(c.env.R2, result, user.userId || 0, imageId);
+// 上游熔断器状态
+app.get('/api/admin/upstream/circuit', adminMiddleware, async (c) => {
+  const breaker = createCircuitBreakerClient(c.env.CIRCUIT_BREAKER);
+  if (!breaker) {
+    return c.json({ error: '熔断器未配置' }, 404);
+  }
+  return c.json({ success: true, circuit: await breaker.getStatus() });
+});
 
-    // 保存记录
-    await imageDb.save(c.env.DB, {
-      id: imageId,
-      url,
-      thumbnailUrl,
-      type: 'eyewear',
-      config: modelConfig
-    }, user.userId);
+// 手动关闭熔断（确认上游恢复后使用）
+app.post('/api/admin/upstream/circuit/reset', adminMiddleware, async (c) => {
+  const breaker = createCircuitBreakerClient(c.env.CIRCUIT_BREAKER);
+  if (!breaker) {
+    return c.json({ error: '熔断器未配置' }, 404);
+  }
+  return c.json({ success: true, circuit: await breaker.reset() });
+});
 
-    return c.json({ success: true, imageUrl: url, thumbnailUrl });
-  } catch (error: any) {
-    console.error('Generate eyewear error:', error);
-    return c.json({ error: error.message || '生成失败' }, 500);
+// 上游请求预算（令牌桶）利用率
+app.get('/api/admin/upstream/governor', adminMiddleware, async (c) => {
+  const governor = createUpstreamGovernorClient(c.env);
+  if (!governor) {
+    return c.json({ error: '上游调度器未配置' }, 404);
   }
+  return c.json({ success: true, governor: await governor.getStatus() });
 });
 
-app.post('/api/generate/poster', rateLimit(10, 60 * 1000), authMiddleware, async (c) => {
+// 还原度质检低于分数线的图片（maxScore 默认取 FIDELITY_THRESHOLD）
+app.get('/api/admin/images/low-fidelity', adminMiddleware, async (c) => {
   try {
-    const user = c.get('user');
-    const { imageBase64, config, size, aspectRatio } = await c.req.json();
-
-    if (!imageBase64 || !config) {
-      return c.json({ error: '缺少必要参数' }, 400);
-    }
-
-    const result = await generatePosterImage(c.env.GEMINI_API_KEY, imageBase64, config, size || '1K', aspectRatio);
+    const maxScore = parseInt(c.req.query('maxScore') || c.env.FIDELITY_THRESHOLD || '70', 10);
+    if (!Number.isFinite(maxScore) || maxScore < 0 || maxScore > 100) {
+      return c.json({ error: 'maxScore 必须是 0-100 之间的整数' }, 400);
+    }
+    const limit = Math.min(parseInt(c.req.query('limit') || '50', 10) || 50, 100);
+    const result = await imageDb.getLowFidelity(c.env.DB, maxScore, {
+      cursor: c.req.query('cursor') || undefined,
+      limit
+    });
 
-    const imageId = crypto.randomUUID();
-    const { url, thumbnailUrl } = await saveImage(c.env.R2, result, user.userId || 0, imageId);
+    const signer = createUrlSigner(c.env);
+    return c.json({
+      success: true,
+      maxScore,
+      images: await Promise.all(result.data.map(image => signImageFields(signer, image))),
+      nextCursor: result.nextCursor,
+      hasMore: result.hasMore
+    });
+  } catch (error) {
+    console.error('Get low fidelity images error:', error);
+    return c.json({ error: '获取低还原度图片失败' }, 500);
+  }
+});
 
-    await imageDb.save(c.env.DB, {
-      id: imageId,
-      url,
-      thumbnailUrl,
-      type: 'poster',
-      config
-    }, user.userId);
+// ========== Gemini API key 池（只返回 key 末 4 位，不返回 key 本身） ==========
 
-    return c.json({ success: true, imageUrl: url, thumbnailUrl });
-  } catch (error: any) {
-    console.error('Generate poster error:', error);
-    return c.json({ error: error.message || '生成失败' }, 500);
+app.get('/api/admin/upstream/keys', adminMiddleware, async (c) => {
+  const pool = createApiKeyPoolClient(c.env);
+  if (!pool) {
+    return c.json({ error: 'API key 池未配置' }, 404);
   }
+  return c.json({ success: true, keys: await pool.list() });
 });
 
-app.post('/api/generate/template', rateLimit(10, 60 * 1000), authMiddleware, async (c) => {
+app.post('/api/admin/upstream/keys', adminMiddleware, async (c) => {
   try {
-    const user = c.get('user');
-    const { imageBase64, templateId, aspectRatio, variableValues, customPrompt, parentImageId } = await c.req.json();
-
-    if (!imageBase64) {
-      return c.json({ error: '缺少必要参数(imageBase64)' }, 400);
+    const pool = createApiKeyPoolClient(c.env);
+    if (!pool) {
+      return c.json({ error: 'API key 池未配置' }, 404);
     }
 
-    let finalPrompt: string;
-    let templateName = '自定义';
-
-    if (customPrompt) {
-      finalPrompt = customPrompt;
-    } else if (templateId && templateId !== 'custom') {
-      const template = await templateDb.getById(c.env.DB, templateId);
-      if (!template) {
-        return c.json({ error: '模板不存在' }, 404);
-      }
-      templateName = template.name;
-
-      finalPrompt = template.prompt;
-      if (variableValues && typeof variableValues === 'object') {
-        for (const [key, value] of Object.entries(variableValues)) {
-          finalPrompt = finalPrompt.replace(new RegExp(`{{${key}}}`, 'g'), value as string);
-        }
-      }
-    } else {
-      return c.json({ error: '缺少必要参数(customPrompt 或 templateId)' }, 400);
+    const { key, label } = await c.req.json();
+    if (typeof key !== 'string' || key.trim().length < 10 || key.trim().length > 200) {
+      return c.json({ error: '无效的 API key' }, 400);
     }
 
-    const result = await generateFromTemplate(c.env.GEMINI_API_KEY, imageBase64, finalPrompt, aspectRatio || '3:4');
-
-    const imageId = crypto.randomUUID();
-    const { url, thumbnailUrl } = await saveImage(c.env.R2, result, user.userId || 0, imageId);
+    const result = await pool.add(key.trim(), typeof label === 'string' ? label.slice(0, 50) : undefined);
+    if ('error' in result) {
+      return c.json({ error: '该 API key 已存在' }, 409);
+    }
+    return c.json({ success: true, key: result });
+  } catch (error) {
+    console.error('Add API key error:', error);
+    return c.json({ error: '添加 API key 失败' }, 500);
+  }
+});
 
-    await imageDb.save(c.env.DB, {
-      id: imageId,
-      url,
-      thumbnailUrl,
-      type: 'template',
-      config: { templateId, templateName, variableValues, customPrompt: !!customPrompt, parentImageId },
-      prompt: finalPrompt
-    }, user.userId, parentImageId);
+app.post('/api/admin/upstream/keys/:id/disable', adminMiddleware, async (c) => {
+  const pool = createApiKeyPoolClient(c.env);
+  if (!pool) {
+    return c.json({ error: 'API key 池未配置' }, 404);
+  }
+  const key = await pool.setDisabled(c.req.param('id'), true);
+  if (!key) {
+    return c.json({ error: 'API key 不存在' }, 404);
+  }
+  return c.json({ success: true, key });
+});
 
-    await promptHistoryDb.save(c.env.DB, user.userId || 0, finalPrompt, templateId !== 'custom' ? templateId : null, variableValues || {}, true);
+app.post('/api/admin/upstream/keys/:id/enable', adminMiddleware, async (c) => {
+  const pool = createApiKeyPoolClient(c.env);
+  if (!pool) {
+    return c.json({ error: 'API key 池未配置' }, 404);
+  }
+  const key = await pool.setDisabled(c.req.param('id'), false);
+  if (!key) {
+    return c.json({ error: 'API key 不存在' }, 404);
+  }
+  return c.json({ success: true, key });
+});
 
-    return c.json({ success: true, imageUrl: url, thumbnailUrl, imageId, parentImageId });
-  } catch (error: any) {
-    console.error('Generate from template error:', error);
-    return c.json({ error: error.message || '模板生成失败' }, 500);
+// 只能删除后台添加的 key；env 中配置的 key 需从 secret 中移除
+app.delete('/api/admin/upstream/keys/:id', adminMiddleware, async (c) => {
+  const pool = createApiKeyPoolClient(c.env);
+  if (!pool) {
+    return c.json({ error: 'API key 池未配置' }, 404);
   }
+  const result = await pool.remove(c.req.param('id'));
+  if (!result.success) {
+    return result.error === 'env_key'
+      ? c.json({ error: '环境变量中配置的 key 只能禁用，不能删除' }, 400)
+      : c.json({ error: 'API key 不存在' }, 404);
+  }
+  return c.json({ success: true });
 });
 
-app.post('/api/generate/suggestions', async (c) => {
+// 撤销指定用户已签发的全部图片链接
+app.post('/api/admin/users/:userId/image-links/revoke', adminMiddleware, async (c) => {
+  const userId = parseInt(c.req.param('userId'));
+  const version = await revokeSignedUrls(c.env, userId);
+  return c.json({ success: true, version });
+});
+
+// 手动调整用户积分（补偿 / 扣除），计入当日余额
+app.post('/api/admin/users/:userId/credits', adminMiddleware, async (c) => {
   try {
-    const { mode, imageBase64 } = await c.req.json();
-    const suggestions = await getPromptSuggestions(c.env.GEMINI_API_KEY, mode, imageBase64);
-    return c.json({ success: true, suggestions });
+    const userId = parseInt(c.req.param('userId'));
+    const { amount, reason } = await c.req.json();
+
+    if (!Number.isInteger(amount) || amount === 0) {
+      return c.json({ error: 'amount 必须是非零整数' }, 400);
+    }
+    if (!(await userDb.findById(c.env.DB, userId))) {
+      return c.json({ error: '用户不存在' }, 404);
+    }
+
+    const id = await creditDb.append(c.env.DB, {
+      userId,
+      kind: 'adjustment',
+      amount,
+      period: creditDb.today(),
+      reason: reason || null,
+      createdBy: c.get('user').username
+    });
+    const quota = await userDb.getQuota(c.env.DB, userId);
+
+    return c.json({ success: true, transactionId: id, balance: quota?.balance });
   } catch (error) {
-    console.error('Get suggestions error:', error);
-    return c.json({ error: '获取建议失败' }, 500);
+    console.error('Adjust credits error:', error);
+    return c.json({ error: '调整积分失败' }, 500);
   }
 });
 
-app.post('/api/generate/optimize-prompt', adminMiddleware, async (c) => {
+// ========== 死信队列管理 ==========
+app.get('/api/admin/dead-letters', adminMiddleware, async (c) => {
   try {
-    const { prompt } = await c.req.json();
-    if (!prompt || prompt.trim().length === 0) {
-      return c.json({ error: '请输入需要优化的提示词' }, 400);
+    const status = c.req.query('status') || 'pending';
+    if (!['pending', 'requeued', 'discarded', 'all'].includes(status)) {
+      return c.json({ error: '无效的状态' }, 400);
     }
-    const optimized = await optimizePrompt(c.env.GEMINI_API_KEY, prompt);
-    return c.json({ success: true, optimizedPrompt: optimized });
-  } catch (error: any) {
-    console.error('Optimize prompt error:', error);
-    return c.json({ error: error.message || '优化提示词失败' }, 500);
+    const limit = Math.min(200, parseInt(c.req.query('limit') || '50') || 50);
+
+    const deadLetters = await deadLetterDb.list(
+      c.env.DB, status === 'all' ? null : status as DeadLetterStatus, limit
+    );
+    return c.json({ success: true, deadLetters });
+  } catch (error) {
+    console.error('List dead letters error:', error);
+    return c.json({ error: '获取死信列表失败' }, 500);
   }
 });
 
-// ========== 用户数据 API ==========
-app.get('/api/user/history', authMiddleware, async (c) => {
+app.get('/api/admin/dead-letters/:id', adminMiddleware, async (c) => {
   try {
-    const user = c.get('user');
-    const view = c.req.query('view');
-    const cursor = c.req.query('cursor') || undefined;
-    const limit = parseInt(c.req.query('limit') || '50', 10);
-
-    let result;
-    if (view === 'all' && user.role === 'admin') {
-      result = await imageDb.getByUserId(c.env.DB, null, { cursor, limit: Math.min(limit, 100) });
-    } else {
-      result = await imageDb.getByUserId(c.env.DB, user.userId, { cursor, limit: Math.min(limit, 50) });
+    const deadLetter = await deadLetterDb.getById(c.env.DB, c.req.param('id'));
+    if (!deadLetter) {
+      return c.json({ error: '死信不存在' }, 404);
     }
 
+    // 附带任务当前状态与最新的失败记录
+    const task = deadLetter.taskId ? await taskDb.getById(c.env.DB, deadLetter.taskId) : null;
+    const failures = deadLetter.taskId ? await taskDb.getFailures(c.env.DB, deadLetter.taskId) : [];
+
     return c.json({
       success: true,
-      images: result.data,
-      nextCursor: result.nextCursor,
-      hasMore: result.hasMore
+      deadLetter,
+      task: task && {
+        id: task.id,
+        userId: task.userId,
+        type: task.type,
+        status: task.status,
+        attempts: task.attempts,
+        errorMessage: task.errorMessage,
+        batchId: task.batchId,
+        createdAt: task.createdAt
+      },
+      failures
     });
   } catch (error) {
-    console.error('Get history error:', error);
-    return c.json({ error: '获取历史记录失败' }, 500);
+    console.error('Get dead letter error:', error);
+    return c.json({ error: '获取死信失败' }, 500);
   }
 });
 
-app.delete('/api/user/history/:imageId', authMiddleware, async (c) => {
+// 重放：已失败的任务重新打开（尝试次数清零，按任务的积分重新预留），并重新发送队列消息
+app.post('/api/admin/dead-letters/:id/requeue', adminMiddleware, async (c) => {
   try {
-    const user = c.get('user');
-    const image = await imageDb.getById(c.env.DB, c.req.param('imageId'));
+    const deadLetter = await deadLetterDb.getById(c.env.DB, c.req.param('id'));
+    if (!deadLetter) {
+      return c.json({ error: '死信不存在' }, 404);
+    }
+    if (deadLetter.status !== 'pending') {
+      return c.json({ error: '该死信已处理' }, 409);
+    }
 
-    if (!image) {
-      return c.json({ error: '图片不存在' }, 404);
+    const task = deadLetter.taskId ? await taskDb.getById(c.env.DB, deadLetter.taskId) : null;
+    if (!task) {
+      return c.json({ error: '任务不存在，只能丢弃' }, 404);
+    }
+    if (task.status === 'completed' || task.status === 'cancelled') {
+      return c.json({ error: `任务已${task.status === 'completed' ? '完成' : '取消'}，无需重放` }, 409);
     }
 
-    if (image.userId !== user.userId && user.role !== 'admin') {
-      return c.json({ error: '无权删除此图片' }, 403);
+    // 任务失败时预留已退还，重放前重新扣费；用户余额不足时拒绝重放
+    let quotaDate: string | undefined;
+    const reservation = task.status === 'failed' ? await taskDb.getQuotaReservation(c.env.DB, task.id) : null;
+    if (reservation?.state === 'released' && reservation.units > 0) {
+      const quotaResult = await userDb.consumeQuota(c.env.DB, task.userId, reservation.units, task.id);
+      if (!quotaResult.success) {
+        return c.json({ error: `用户积分不足，无法重放：${quotaResult.error}` }, 409);
+      }
+      quotaDate = quotaResult.quotaDate!;
     }
 
-    await deleteImage(c.env.R2, image.url);
-    // 同时删除缩略图
-    if (image.thumbnailUrl) {
-      await deleteImage(c.env.R2, image.thumbnailUrl);
+    const refundRequeue = async () => {
+      if (!quotaDate) return;
+      await creditDb.append(c.env.DB, {
+        userId: task.userId, kind: 'refund', amount: reservation!.units, period: quotaDate, taskId: task.id, reason: 'requeue_aborted'
+      });
+    };
+
+    if (!await deadLetterDb.resolve(c.env.DB, deadLetter.id, 'requeued', c.get('user').username)) {
+      await refundRequeue();
+      return c.json({ error: '该死信已处理' }, 409);
     }
-    await imageDb.delete(c.env.DB, c.req.param('imageId'));
+    if (task.status === 'failed' && !await taskDb.reopen(c.env.DB, task.id, quotaDate)) {
+      await refundRequeue();
+      return c.json({ error: '任务状态已变化，请刷新后重试' }, 409);
+    }
+    await taskEventDb.record(c.env.DB, task.id, 'requeued', {
+      status: task.status === 'failed' ? 'pending' : task.status,
+      data: { deadLetterId: deadLetter.id, by: c.get('user').username }
+    });
+    await dispatchTask(c, task.id, task.type);
 
-    return c.json({ success: true });
+    return c.json({ success: true, taskId: task.id });
   } catch (error) {
-    console.error('Delete image error:', error);
-    return c.json({ error: '删除图片失败' }, 500);
+    console.error('Requeue dead letter error:', error);
+    return c.json({ error: '重放失败' }, 500);
   }
 });
 
-// ========== 缩略图上传 ==========
-app.post('/api/user/history/:imageId/thumbnail', authMiddleware, async (c) => {
+// 丢弃：仍在排队的任务标记为失败并退还配额
+app.post('/api/admin/dead-letters/:id/discard', adminMiddleware, async (c) => {
   try {
-    const user = c.get('user');
-    const imageId = c.req.param('imageId');
-    const { thumbnailData } = await c.req.json();
+    const deadLetter = await deadLetterDb.getById(c.env.DB, c.req.param('id'));
+    if (!deadLetter) {
+      return c.json({ error: '死信不存在' }, 404);
+    }
+
+    if (!await deadLetterDb.resolve(c.env.DB, deadLetter.id, 'discarded', c.get('user').username)) {
+      return c.json({ error: '该死信已处理' }, 409);
+    }
+
+    const task = deadLetter.taskId ? await taskDb.getById(c.env.DB, deadLetter.taskId) : null;
+    if (task && (task.status === 'pending' || task.status === 'processing')) {
+      await failTask(c.env, task.id, '任务处理失败，已由管理员终止');
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Discard dead letter error:', error);
+    return c.json({ error: '丢弃失败' }, 500);
+  }
+});
+
+// ========== 参考图上传 API ==========
+// 支持 multipart/form-data（字段 file）或直接上传二进制（Content-Type: image/*）。
+// 返回的 uploadId 可在所有生成接口中代替 imageBase64。
+app.post('/api/uploads', authMiddleware, rateLimit(20, 60 * 1000), async (c) => {
+  try {
+    const user = c.get('user');
+    const limits = TIER_CONFIGS[user.tier || 'free'].upload;
+
+    // 先按 Content-Length 拒绝明显超限的请求，避免读入整个请求体
+    const contentLength = parseInt(c.req.header('Content-Length') || '0');
+    if (contentLength > limits.maxBytes + 64 * 1024) {
+      return c.json({ error: `图片大小超过限制（最大 ${Math.floor(limits.maxBytes / 1024 / 1024)}MB）` }, 413);
+    }
+
+    let bytes: Uint8Array;
+    const contentType = c.req.header('Content-Type') || '';
+    if (contentType.startsWith('multipart/form-data')) {
+      const body = await c.req.parseBody();
+      const file = body['file'];
+      if (!file || typeof file === 'string' || Array.isArray(file)) {
+        return c.json({ error: '缺少上传文件(file)' }, 400);
+      }
+      bytes = new Uint8Array(await file.arrayBuffer());
+    } else {
+      bytes = new Uint8Array(await c.req.arrayBuffer());
+    }
+
+    // 格式以文件头为准，不信任客户端声明的类型
+    const checked = validateUpload(bytes, user.tier || 'free');
+    if ('error' in checked) {
+      return c.json({ error: checked.error }, checked.status);
+    }
+
+    const saved = await storeInputImage(c, bytes, checked.info.mimeType);
+    const uploadId = crypto.randomUUID();
+    await uploadDb.create(c.env.DB, {
+      id: uploadId,
+      userId: user.userId ?? 0,
+      inputKey: saved.key,
+      mimeType: checked.info.mimeType,
+      size: saved.size,
+      width: checked.info.width,
+      height: checked.info.height
+    });
+
+    return c.json({
+      success: true,
+      uploadId,
+      mimeType: checked.info.mimeType,
+      size: saved.size,
+      width: checked.info.width,
+      height: checked.info.height
+    });
+  } catch (error) {
+    console.error('Upload error:', error);
+    return c.json({ error: '上传失败' }, 500);
+  }
+});
+
+// ========== AI 生成 API ==========
+// 同步生成接口：与 /api/tasks/* 一样先扣配额、创建任务，再走统一的任务管线。
+// 默认等待任务完成并返回图片（兼容旧客户端）；传 ?wait=false 则立即返回 taskId。
+app.post('/api/generate/eyewear', authMiddleware, rateLimit(10, 60 * 1000), idempotency(), async (c) => {
+  try {
+    const user = c.get('user');
+    const { imageBase64, uploadId, size, model, modelConfig, gender } = await c.req.json();
+
+    if ((!imageBase64 && !uploadId) || !modelConfig) {
+      return c.json({ error: '缺少必要参数' }, 400);
+    }
+
+    const inputImage = await resolveInputImage(c, imageBase64, uploadId);
+    if ('error' in inputImage) {
+      return c.json({ error: inputImage.error }, inputImage.status);
+    }
+
+    return await submitGenerateTask(c, {
+      inputImageKey: inputImage.key,
+      modelConfig,
+      imageQuality: size,
+      model,
+      gender: gender || 'female'
+    });
+  } catch (error: any) {
+    console.error('Generate eyewear error:', error);
+    return c.json({ error: error.message || '生成失败' }, 500);
+  }
+});
+
+app.post('/api/generate/poster', authMiddleware, rateLimit(10, 60 * 1000), idempotency(), async (c) => {
+  try {
+    const { imageBase64, uploadId, config, size, model, aspectRatio } = await c.req.json();
+
+    if ((!imageBase64 && !uploadId) || !config) {
+      return c.json({ error: '缺少必要参数' }, 400);
+    }
+
+    const inputImage = await resolveInputImage(c, imageBase64, uploadId);
+    if ('error' in inputImage) {
+      return c.json({ error: inputImage.error }, inputImage.status);
+    }
+
+    return await submitGenerateTask(c, {
+      inputImageKey: inputImage.key,
+      posterConfig: config,
+      imageQuality: size,
+      model,
+      aspectRatio: aspectRatio || '3:4'
+    });
+  } catch (error: any) {
+    console.error('Generate poster error:', error);
+    return c.json({ error: error.message || '生成失败' }, 500);
+  }
+});
+
+app.post('/api/generate/template', authMiddleware, rateLimit(10, 60 * 1000), idempotency(), async (c) => {
+  try {
+    const {
+      imageBase64, uploadId, templateId, aspectRatio, variableValues, customPrompt, parentImageId, size, model
+    } = await c.req.json();
+
+    if (!imageBase64 && !uploadId) {
+      return c.json({ error: '缺少必要参数(uploadId 或 imageBase64)' }, 400);
+    }
+
+    let finalPrompt: string;
+    let templateName = '自定义';
+
+    if (customPrompt) {
+      finalPrompt = customPrompt;
+    } else if (templateId && templateId !== 'custom') {
+      const template = await templateDb.getById(c.env.DB, templateId);
+      if (!template) {
+        return c.json({ error: '模板不存在' }, 404);
+      }
+      templateName = template.name;
+
+      finalPrompt = template.prompt;
+      if (variableValues && typeof variableValues === 'object') {
+        for (const [key, value] of Object.entries(variableValues)) {
+          finalPrompt = finalPrompt.replace(new RegExp(`{{${key}}}`, 'g'), value as string);
+        }
+      }
+    } else {
+      return c.json({ error: '缺少必要参数(customPrompt 或 templateId)' }, 400);
+    }
+
+    const inputImage = await resolveInputImage(c, imageBase64, uploadId);
+    if ('error' in inputImage) {
+      return c.json({ error: inputImage.error }, inputImage.status);
+    }
+
+    return await submitGenerateTask(c, {
+      inputImageKey: inputImage.key,
+      prompt: finalPrompt,
+      aspectRatio: aspectRatio || '3:4',
+      templateId: customPrompt ? undefined : templateId,
+      templateName,
+      variableValues,
+      parentImageId,
+      imageQuality: size,
+      model
+    });
+  } catch (error: any) {
+    console.error('Generate from template error:', error);
+    return c.json({ error: error.message || '模板生成失败' }, 500);
+  }
+});
+
+app.post('/api/generate/suggestions', async (c) => {
+  try {
+    const { mode, imageBase64 } = await c.req.json();
+    const suggestions = await getPromptSuggestions(c.env.GEMINI_API_KEY, mode, imageBase64, getUpstreamOptions(c.env));
+    return c.json({ success: true, suggestions });
+  } catch (error) {
+    console.error('Get suggestions error:', error);
+    return c.json({ error: '获取建议失败' }, 500);
+  }
+});
+
+app.post('/api/generate/optimize-prompt', adminMiddleware, async (c) => {
+  try {
+    const { prompt } = await c.req.json();
+    if (!prompt || prompt.trim().length === 0) {
+      return c.json({ error: '请输入需要优化的提示词' }, 400);
+    }
+    const optimized = await optimizePrompt(c.env.GEMINI_API_KEY, prompt, getUpstreamOptions(c.env));
+    return c.json({ success: true, optimizedPrompt: optimized });
+  } catch (error: any) {
+    console.error('Optimize prompt error:', error);
+    return c.json({ error: error.message || '优化提示词失败' }, 500);
+  }
+});
+
+// ========== 用户数据 API ==========
+app.get('/api/user/history', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const view = c.req.query('view');
+    const cursor = c.req.query('cursor') || undefined;
+    const limit = parseInt(c.req.query('limit') || '50', 10);
+
+    let result;
+    if (view === 'all' && user.role === 'admin') {
+      result = await imageDb.getByUserId(c.env.DB, null, { cursor, limit: Math.min(limit, 100) });
+    } else {
+      result = await imageDb.getByUserId(c.env.DB, user.userId, { cursor, limit: Math.min(limit, 50) });
+    }
+
+    const signer = createUrlSigner(c.env);
+    return c.json({
+      success: true,
+      images: await Promise.all(result.data.map(image => signImageFields(signer, image))),
+      nextCursor: result.nextCursor,
+      hasMore: result.hasMore
+    });
+  } catch (error) {
+    console.error('Get history error:', error);
+    return c.json({ error: '获取历史记录失败' }, 500);
+  }
+});
+
+app.delete('/api/user/history/:imageId', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const image = await imageDb.getById(c.env.DB, c.req.param('imageId'));
+
+    if (!image) {
+      return c.json({ error: '图片不存在' }, 404);
+    }
+
+    if (image.userId !== user.userId && user.role !== 'admin') {
+      return c.json({ error: '无权删除此图片' }, 403);
+    }
+
+    await deleteImage(c.env.R2, image.url);
+    // 同时删除衍生图
+    if (image.thumbnailUrl) {
+      await deleteImage(c.env.R2, image.thumbnailUrl);
+    }
+    if (image.mediumUrl) {
+      await deleteImage(c.env.R2, image.mediumUrl);
+    }
+    await imageDb.delete(c.env.DB, c.req.param('imageId'));
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Delete image error:', error);
+    return c.json({ error: '删除图片失败' }, 500);
+  }
+});
+
+// ========== 缩略图上传 ==========
+app.post('/api/user/history/:imageId/thumbnail', authMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const imageId = c.req.param('imageId');
+    const { thumbnailData } = await c.req.json();
 
     if (!thumbnailData) {
       return c.json({ error: 'Missing thumbnailData' }, 400);
@@ -1014,19 +1558,34 @@ app.post('/api/user/history/:imageId/thumbnail', authMiddleware, async (c) => {
       return c.json({ error: 'Unauthorized' }, 403);
     }
 
+    // 新图片保存时已由服务端生成缩略图，仅为旧图片补充
+    if (image.thumbnailUrl) {
+      return c.json({ success: true, thumbnailUrl: await createUrlSigner(c.env).sign(image.thumbnailUrl) });
+    }
+
     const thumbnailUrl = await saveThumbnail(
       c.env.R2, thumbnailData, user.userId || 0, imageId
     );
 
     await imageDb.updateThumbnail(c.env.DB, imageId, thumbnailUrl, user.userId!);
 
-    return c.json({ success: true, thumbnailUrl });
+    return c.json({ success: true, thumbnailUrl: await createUrlSigner(c.env).sign(thumbnailUrl) });
   } catch (error: any) {
     console.error('Upload thumbnail error:', error);
     return c.json({ error: error.message || 'Thumbnail upload failed' }, 500);
   }
 });
 
+// 撤销自己已签发的全部图片链接（如链接被转发泄露）
+app.post('/api/user/image-links/revoke', authMiddleware, async (c) => {
+  const user = c.get('user');
+  if (!user.userId) {
+    return c.json({ error: '用户未登录' }, 401);
+  }
+  await revokeSignedUrls(c.env, user.userId);
+  return c.json({ success: true, message: '已撤销全部图片链接，请刷新页面获取新链接' });
+});
+
 // ========== 社区画廊 API ==========
 app.get('/api/gallery/public', async (c) => {
   try {
@@ -1079,7 +1638,11 @@ app.post('/api/user/history/:imageId/share', authMiddleware, async (c) => {
 app.get('/api/user/history/:imageId/iterations', authMiddleware, async (c) => {
   try {
     const iterations = await imageDb.getIterations(c.env.DB, c.req.param('imageId'));
-    return c.json({ success: true, iterations });
+    const signer = createUrlSigner(c.env);
+    return c.json({
+      success: true,
+      iterations: await Promise.all(iterations.map(image => signImageFields(signer, image)))
+    });
   } catch (error) {
     console.error('Get iterations error:', error);
     return c.json({ error: '获取迭代历史失败' }, 500);
@@ -1206,54 +1769,62 @@ app.get('/api/templates/:id/stats', async (c) => {
 });
 
 // ========== 任务队列 API ==========
-app.post('/api/tasks/generate', rateLimit(10, 60 * 1000), authMiddleware, async (c) => {
+app.post('/api/tasks/generate', authMiddleware, rateLimit(10, 60 * 1000), idempotency(), async (c) => {
   try {
     const user = c.get('user');
-    const { imageBase64, prompt, aspectRatio, templateId, templateName, variableValues, modelConfig, imageQuality, gender } = await c.req.json();
+    const {
+      imageBase64, uploadId, prompt, aspectRatio, templateId, templateName, variableValues, modelConfig, imageQuality, model, gender
+    } = await c.req.json();
 
-    if (!imageBase64 || (!prompt && !modelConfig)) {
+    if ((!imageBase64 && !uploadId) || (!prompt && !modelConfig)) {
       return c.json({ error: '缺少必要参数' }, 400);
     }
 
+    // 模型与输出尺寸按等级校验
+    const options = resolveGenerationOptions(user.tier || 'free', { model, imageSize: imageQuality });
+    if ('error' in options) {
+      return c.json({ error: options.error }, options.status);
+    }
+
+    const inputImage = await resolveInputImage(c, imageBase64, uploadId);
+    if ('error' in inputImage) {
+      return c.json({ error: inputImage.error }, inputImage.status);
+    }
+
     const userId = user.userId ?? 0;
 
-    // 检查配额
-    const quotaResult = await userDb.consumeQuota(c.env.DB, userId, 1);
+    // 检查配额（按输出尺寸计费）
+    const taskId = crypto.randomUUID();
+    const cost = imageCreditCost(options.imageSize);
+    const quotaResult = await userDb.consumeQuota(c.env.DB, userId, cost, taskId);
     if (!quotaResult.success) {
       return c.json({ error: quotaResult.error }, 403);
     }
-    const taskId = crypto.randomUUID();
     const task = await taskDb.create(c.env.DB, taskId, userId, 'generate', {
-      imageBase64,
+      inputImageKey: inputImage.key,
       prompt,
       aspectRatio: aspectRatio || '3:4',
       templateId,
       templateName,
       variableValues,
       modelConfig,
-      imageQuality,
+      imageQuality: options.imageSize,
+      model: options.model,
       gender: gender || 'female'
-    });
+    }, undefined, { units: cost, date: quotaResult.quotaDate! });
+    await publishTaskEvent(c.env, task, 'created');
 
-    const stats = await taskDb.getQueueStats(c.env.DB);
+    // 按优先级计算排队位置
+    const queuePosition = await taskDb.getQueuePosition(c.env.DB, task.id);
 
     // 发送到 Cloudflare Queue（如果可用）
-    if (c.env.GENERATION_QUEUE) {
-      await c.env.GENERATION_QUEUE.send({
-        taskId: task.id,
-        type: 'generate',
-        timestamp: Date.now()
-      });
-    } else {
-      // 回退到直接处理（开发环境或 Queue 未配置）
-      c.executionCtx.waitUntil(processTask(c.env, task.id));
-    }
+    await dispatchTask(c, task.id, 'generate');
 
     return c.json({
       success: true,
       taskId: task.id,
       status: task.status,
-      queuePosition: stats.pending,
+      queuePosition,
       message: '任务已加入队列，可关闭页面，稍后在历史记录中查看结果'
     });
   } catch (error) {
@@ -1262,12 +1833,15 @@ app.post('/api/tasks/generate', rateLimit(10, 60 * 1000), authMiddleware, async
   }
 });
 
-app.post('/api/tasks/batch', rateLimit(3, 60 * 1000), authMiddleware, async (c) => {
+app.post('/api/tasks/batch', authMiddleware, rateLimit(3, 60 * 1000), idempotency(), async (c) => {
   try {
     const user = c.get('user');
-    const { imageBase64, basePrompt, combinations, aspectRatio, templateId, templateName, concurrency: reqConcurrency } = await c.req.json();
+    const {
+      imageBase64, uploadId, basePrompt, combinations, aspectRatio, templateId, templateName, imageQuality, model,
+      concurrency: reqConcurrency
+    } = await c.req.json();
 
-    if (!imageBase64 || !combinations || !Array.isArray(combinations)) {
+    if ((!imageBase64 && !uploadId) || !combinations || !Array.isArray(combinations)) {
       return c.json({ error: '缺少必要参数' }, 400);
     }
 
@@ -1281,47 +1855,52 @@ app.post('/api/tasks/batch', rateLimit(3, 60 * 1000), authMiddleware, async (c)
       }, 403);
     }
 
+    const options = resolveGenerationOptions(user.tier || 'free', { model, imageSize: imageQuality });
+    if ('error' in options) {
+      return c.json({ error: options.error }, options.status);
+    }
+
+    const inputImage = await resolveInputImage(c, imageBase64, uploadId);
+    if ('error' in inputImage) {
+      return c.json({ error: inputImage.error }, inputImage.status);
+    }
+
     // 检查配额（批量任务消耗多个配额）
-    const quotaResult = await userDb.consumeQuota(c.env.DB, userId, combinations.length);
+    const taskId = crypto.randomUUID();
+    const cost = batchCreditCost(combinations.length, options.imageSize);
+    const quotaResult = await userDb.consumeQuota(c.env.DB, userId, cost, taskId);
     if (!quotaResult.success) {
       return c.json({ error: quotaResult.error }, 403);
     }
 
-    const taskId = crypto.randomUUID();
-
     // 获取用户指定的并行数（1-5），默认3
     const concurrency = Math.min(5, Math.max(1, reqConcurrency || 3));
 
     // Create the main batch task
     const task = await taskDb.create(c.env.DB, taskId, userId, 'batch', {
-      imageBase64,
+      inputImageKey: inputImage.key,
       basePrompt,
       combinations,
       aspectRatio: aspectRatio || '3:4',
       templateId,
       templateName,
+      imageQuality: options.imageSize,
+      model: options.model,
       concurrency  // 保存并行数设置
-    });
+    }, undefined, { units: cost, date: quotaResult.quotaDate! });
+    await publishTaskEvent(c.env, task, 'created');
 
-    const stats = await taskDb.getQueueStats(c.env.DB);
+    // 按优先级计算排队位置
+    const queuePosition = await taskDb.getQueuePosition(c.env.DB, task.id);
 
     // 发送到 Cloudflare Queue（如果可用）
-    if (c.env.GENERATION_QUEUE) {
-      await c.env.GENERATION_QUEUE.send({
-        taskId: task.id,
-        type: 'batch',
-        timestamp: Date.now()
-      });
-    } else {
-      // 回退到直接处理
-      c.executionCtx.waitUntil(processTask(c.env, task.id));
-    }
+    await dispatchTask(c, task.id, 'batch');
 
     return c.json({
       success: true,
       taskId: task.id,
       status: task.status,
-      queuePosition: stats.pending,
+      queuePosition,
       message: '批量任务已创建，正在后台处理'
     });
   } catch (error) {
@@ -1331,12 +1910,12 @@ app.post('/api/tasks/batch', rateLimit(3, 60 * 1000), authMiddleware, async (c)
 });
 
 // ========== 产品图生成任务 API ==========
-app.post('/api/tasks/product-shot', rateLimit(10, 60 * 1000), authMiddleware, async (c) => {
+app.post('/api/tasks/product-shot', authMiddleware, rateLimit(10, 60 * 1000), idempotency(), async (c) => {
   try {
     const user = c.get('user');
-    const { imageBase64, angles, config, concurrency: reqConcurrency } = await c.req.json();
+    const { imageBase64, uploadId, angles, config, model, concurrency: reqConcurrency } = await c.req.json();
 
-    if (!imageBase64 || !angles || !Array.isArray(angles) || angles.length === 0) {
+    if ((!imageBase64 && !uploadId) || !angles || !Array.isArray(angles) || angles.length === 0) {
       return c.json({ error: '缺少必要参数' }, 400);
     }
 
@@ -1346,21 +1925,36 @@ app.post('/api/tasks/product-shot', rateLimit(10, 60 * 1000), authMiddleware, as
       return c.json({ error: '产品摄影功能需要 Pro 或 Ultra 会员' }, 403);
     }
 
+    // 输出尺寸按等级校验（未指定时使用等级默认尺寸）
+    const options = resolveGenerationOptions(user.tier || 'free', { model, imageSize: config?.outputSize });
+    if ('error' in options) {
+      return c.json({ error: options.error }, options.status);
+    }
+
     const userId = user.userId ?? 0;
 
-    // 检查配额
-    const quotaResult = await userDb.consumeQuota(c.env.DB, userId, angles.length);
+    // 参考图只存一份，各角度任务共享同一个 key
+    const inputImage = await resolveInputImage(c, imageBase64, uploadId);
+    if ('error' in inputImage) {
+      return c.json({ error: inputImage.error }, inputImage.status);
+    }
+
+    // 检查配额（角度数 × 输出尺寸权重）
+    const outputSize = options.imageSize;
+    const batchId = crypto.randomUUID();
+    const quotaResult = await userDb.consumeQuota(
+      c.env.DB, userId, batchCreditCost(angles.length, outputSize), batchId
+    );
     if (!quotaResult.success) {
       return c.json({ error: quotaResult.error }, 403);
     }
-    const batchId = crypto.randomUUID();
     const taskIds: string[] = [];
 
     const taskConfig = {
       backgroundColor: config?.backgroundColor || 'pure_white',
       reflectionEnabled: config?.reflectionEnabled ?? false,  // 默认关闭倒影
       shadowStyle: config?.shadowStyle || 'none',             // 默认无阴影
-      outputSize: config?.outputSize || '1K',
+      outputSize,
       aspectRatio: config?.aspectRatio || '1:1'
     };
 
@@ -1370,16 +1964,19 @@ app.post('/api/tasks/product-shot', rateLimit(10, 60 * 1000), authMiddleware, as
     // 为每个角度创建独立任务
     for (const angle of angles) {
       const taskId = crypto.randomUUID();
-      await taskDb.create(c.env.DB, taskId, userId, 'product_shot', {
-        imageBase64,
+      const task = await taskDb.create(c.env.DB, taskId, userId, 'product_shot', {
+        inputImageKey: inputImage.key,
         angle,
         config: taskConfig,
+        model: options.model,
         concurrency
-      }, batchId);
+      }, batchId, { units: imageCreditCost(outputSize), date: quotaResult.quotaDate! });
+      await publishTaskEvent(c.env, task, 'created', { angle });
       taskIds.push(taskId);
     }
 
-    const stats = await taskDb.getQueueStats(c.env.DB);
+    // 按优先级计算排队位置（以第一个角度为准）
+    const queuePosition = await taskDb.getQueuePosition(c.env.DB, taskIds[0]);
 
     // 发送所有任务到 Queue（如果可用）
     if (c.env.GENERATION_QUEUE) {
@@ -1400,7 +1997,7 @@ app.post('/api/tasks/product-shot', rateLimit(10, 60 * 1000), authMiddleware, as
       batchId,
       taskIds,
       status: 'pending',
-      queuePosition: stats.pending,
+      queuePosition,
       totalImages: angles.length,
       message: `正在生成 ${angles.length} 张产品图`
     });
@@ -1410,6 +2007,91 @@ app.post('/api/tasks/product-shot', rateLimit(10, 60 * 1000), authMiddleware, as
   }
 });
 
+/**
+ * 批次状态：进度、各任务状态与已完成结果（签名链接）
+ */
+async function getBatchStatus(c: AppContext, batchId: string, tasks: Task[]) {
+  const progress = await taskDb.getBatchProgress(c.env.DB, batchId);
+
+  // 聚合已完成任务的结果
+  const signer = createUrlSigner(c.env);
+  const results = await Promise.all(tasks
+    .filter(t => t.status === 'completed' && t.outputData)
+    .map(t => signImageFields(signer, {
+      angle: t.outputData?.angle || t.inputData.angle,
+      imageUrl: t.outputData?.imageUrl,
+      thumbnailUrl: t.outputData?.thumbnailUrl,
+      mediumUrl: t.outputData?.mediumUrl,
+      imageId: t.outputData?.imageId
+    })));
+
+  return {
+    batchId,
+    progress,
+    tasks: tasks.map(t => ({
+      id: t.id,
+      angle: t.inputData.angle,
+      status: t.status,
+      errorMessage: t.errorMessage
+    })),
+    results,
+    isCompleted: progress.pending === 0 && progress.processing === 0 && progress.paused === 0,
+    isPaused: progress.paused > 0
+  };
+}
+
+/**
+ * 打开 SSE 事件流：由用户的 UserChannel 推送，支持 Last-Event-ID 续传
+ * 首次连接先发送当前状态快照，订阅的任务全部结束后服务端关闭连接
+ */
+async function openEventStream(
+  c: AppContext,
+  userId: number,
+  filter: { taskIds?: string[]; batchIds?: string[] },
+  tasks: Task[],
+  snapshot: unknown
+): Promise<Response> {
+  // EventSource 重连时自动带 Last-Event-ID；部分 polyfill 只能放在 query 中
+  const lastEventId = c.req.header('Last-Event-ID') || c.req.query('lastEventId');
+  const since = lastEventId ? parseInt(lastEventId, 10) || 0 : 0;
+
+  const body: StreamRequest = {
+    since,
+    ...filter,
+    pendingTaskIds: tasks.filter(t => ['pending', 'paused', 'processing'].includes(t.status)).map(t => t.id),
+    snapshot: lastEventId ? undefined : snapshot
+  };
+
+  return getUserChannel(c.env, userId).fetch(new Request('http://do/stream', {
+    method: 'POST',
+    body: JSON.stringify(body)
+  }));
+}
+
+// 批次状态 SSE（WebSocket 不可用时的回退方案）
+app.get('/api/tasks/batch/:batchId/events', streamAuthMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const batchId = c.req.param('batchId');
+
+    const tasks = await taskDb.getByBatchId(c.env.DB, batchId);
+    if (tasks.length === 0) {
+      return c.json({ error: '批次不存在' }, 404);
+    }
+
+    const userId = user.userId ?? 0;
+    if (tasks[0].userId !== userId) {
+      return c.json({ error: '无权访问此批次' }, 403);
+    }
+
+    const snapshot = await getBatchStatus(c, batchId, tasks);
+    return openEventStream(c, userId, { batchIds: [batchId] }, tasks, snapshot);
+  } catch (error) {
+    console.error('Open batch event stream error:', error);
+    return c.json({ error: '订阅批次状态失败' }, 500);
+  }
+});
+
 // 获取批次状态
 app.get('/api/tasks/batch/:batchId', authMiddleware, async (c) => {
   try {
@@ -1428,37 +2110,63 @@ app.get('/api/tasks/batch/:batchId', authMiddleware, async (c) => {
       return c.json({ error: '无权访问此批次' }, 403);
     }
 
-    const progress = await taskDb.getBatchProgress(c.env.DB, batchId);
-
-    // 聚合已完成任务的结果
-    const results = tasks
-      .filter(t => t.status === 'completed' && t.outputData)
-      .map(t => ({
-        angle: t.outputData?.angle || t.inputData.angle,
-        imageUrl: t.outputData?.imageUrl,
-        thumbnailUrl: t.outputData?.thumbnailUrl,
-        imageId: t.outputData?.imageId
-      }));
-
-    return c.json({
-      success: true,
-      batchId,
-      progress,
-      tasks: tasks.map(t => ({
-        id: t.id,
-        angle: t.inputData.angle,
-        status: t.status,
-        errorMessage: t.errorMessage
-      })),
-      results,
-      isCompleted: progress.pending === 0 && progress.processing === 0
-    });
+    return c.json({ success: true, ...await getBatchStatus(c, batchId, tasks) });
   } catch (error) {
     console.error('Get batch error:', error);
     return c.json({ error: '获取批次状态失败' }, 500);
   }
 });
 
+// 任务事件：
+// - Accept: text/event-stream 时为实时状态 SSE（WebSocket 不可用时的回退方案）
+// - 否则返回审计时间线（每次状态变化、重试、上游调用耗时与错误类型）
+app.get('/api/tasks/:taskId/events', eventsAuthMiddleware, async (c) => {
+  try {
+    const user = c.get('user');
+    const task = await taskDb.getById(c.env.DB, c.req.param('taskId'));
+
+    if (!task) {
+      return c.json({ error: '任务不存在' }, 404);
+    }
+
+    if (task.userId !== user.userId && user.role !== 'admin') {
+      return c.json({ error: '无权访问此任务' }, 403);
+    }
+
+    if (!isEventStreamRequest(c)) {
+      const events = await taskEventDb.getByTaskId(c.env.DB, task.id);
+      return c.json({
+        success: true,
+        task: {
+          id: task.id,
+          type: task.type,
+          status: task.status,
+          attempts: task.attempts,
+          createdAt: task.createdAt,
+          startedAt: task.startedAt,
+          completedAt: task.completedAt
+        },
+        events
+      });
+    }
+
+    const snapshot = {
+      id: task.id,
+      type: task.type,
+      status: task.status,
+      progress: task.progress,
+      stage: task.stage,
+      outputData: task.outputData && await signImageFields(createUrlSigner(c.env), task.outputData),
+      errorMessage: task.errorMessage
+    };
+    // 事件通道按任务所有者划分（管理员查看他人任务时订阅所有者的通道）
+    return openEventStream(c, task.userId, { taskIds: [task.id] }, [task], snapshot);
+  } catch (error) {
+    console.error('Get task events error:', error);
+    return c.json({ error: '获取任务事件失败' }, 500);
+  }
+});
+
 app.get('/api/tasks/:taskId', authMiddleware, async (c) => {
   try {
     const user = c.get('user');
@@ -1480,7 +2188,8 @@ app.get('/api/tasks/:taskId', authMiddleware, async (c) => {
         type: task.type,
         status: task.status,
         progress: task.progress,
-        outputData: task.outputData,
+        stage: task.stage,
+        outputData: task.outputData && await signImageFields(createUrlSigner(c.env), task.outputData),
         errorMessage: task.errorMessage,
         createdAt: task.createdAt,
         startedAt: task.startedAt,
@@ -1509,7 +2218,13 @@ app.get('/api/tasks', authMiddleware, async (c) => {
       tasks = await taskDb.getByUserId(c.env.DB, userId, 50);
     }
 
-    return c.json({ success: true, tasks });
+    const signer = createUrlSigner(c.env);
+    const signed = await Promise.all(tasks.map(async (task: any) => ({
+      ...task,
+      outputData: task.outputData && await signImageFields(signer, task.outputData)
+    })));
+
+    return c.json({ success: true, tasks: signed });
   } catch (error) {
     console.error('Get tasks error:', error);
     return c.json({ error: '获取任务列表失败' }, 500);
@@ -1529,6 +2244,14 @@ app.post('/api/tasks/:taskId/cancel', authMiddleware, async (c) => {
       return c.json({ success: false, error: result.message }, 400);
     }
 
+    // 退还预留的配额
+    await taskDb.releaseQuota(c.env.DB, taskId);
+
+    const task = await taskDb.getById(c.env.DB, taskId);
+    if (task) {
+      await publishTaskEvent(c.env, task, 'cancelled');
+    }
+
     return c.json({ success: true, message: result.message });
   } catch (error) {
     console.error('Cancel task error:', error);
@@ -1536,6 +2259,312 @@ app.post('/api/tasks/:taskId/cancel', authMiddleware, async (c) => {
   }
 });
 
+// ========== 批次控制 ==========
+
+/**
+ * 读取批次并校验归属
+ */
+async function getOwnedBatch(
+  c: AppContext,
+  batchId: string
+): Promise<{ tasks: Task[] } | { error: string; status: ContentfulStatusCode }> {
+  const tasks = await taskDb.getByBatchId(c.env.DB, batchId);
+  if (tasks.length === 0) {
+    return { error: '批次不存在', status: 404 };
+  }
+  if (tasks[0].userId !== (c.get('user').userId ?? 0)) {
+    return { error: '无权访问此批次', status: 403 };
+  }
+  return { tasks };
+}
+
+// 暂停批次：尚未开始的任务不再被调度，处理中的任务照常完成
+app.post('/api/tasks/batch/:batchId/pause', authMiddleware, async (c) => {
+  try {
+    const batchId = c.req.param('batchId');
+    const batch = await getOwnedBatch(c, batchId);
+    if ('error' in batch) {
+      return c.json({ error: batch.error }, batch.status);
+    }
+
+    const pausedIds = new Set(await taskDb.pauseBatch(c.env.DB, batchId));
+    for (const task of batch.tasks.filter(t => pausedIds.has(t.id))) {
+      await publishTaskEvent(c.env, task, 'paused');
+    }
+
+    return c.json({
+      success: true,
+      batchId,
+      paused: pausedIds.size,
+      progress: await taskDb.getBatchProgress(c.env.DB, batchId)
+    });
+  } catch (error) {
+    console.error('Pause batch error:', error);
+    return c.json({ error: '暂停批次失败' }, 500);
+  }
+});
+
+// 恢复批次：已暂停的任务重新排队
+app.post('/api/tasks/batch/:batchId/resume', authMiddleware, async (c) => {
+  try {
+    const batchId = c.req.param('batchId');
+    const batch = await getOwnedBatch(c, batchId);
+    if ('error' in batch) {
+      return c.json({ error: batch.error }, batch.status);
+    }
+
+    const resumedIds = new Set(await taskDb.resumeBatch(c.env.DB, batchId));
+    const resumed = batch.tasks.filter(t => resumedIds.has(t.id));
+    for (const task of resumed) {
+      await publishTaskEvent(c.env, task, 'resumed');
+    }
+
+    if (resumed.length > 0) {
+      if (c.env.GENERATION_QUEUE) {
+        await c.env.GENERATION_QUEUE.sendBatch(resumed.map(task => ({
+          body: { taskId: task.id, type: task.type, timestamp: Date.now() }
+        })));
+      } else {
+        // 未配置 Queue 时按批次受控并发处理
+        c.executionCtx.waitUntil(processBatchTasks(c.env, batchId));
+      }
+    }
+
+    return c.json({
+      success: true,
+      batchId,
+      resumed: resumed.length,
+      progress: await taskDb.getBatchProgress(c.env.DB, batchId)
+    });
+  } catch (error) {
+    console.error('Resume batch error:', error);
+    return c.json({ error: '恢复批次失败' }, 500);
+  }
+});
+
+// 取消批次：未开始（含已暂停）的任务全部取消并退还配额，处理中的任务照常完成
+app.post('/api/tasks/batch/:batchId/cancel', authMiddleware, async (c) => {
+  try {
+    const batchId = c.req.param('batchId');
+    const batch = await getOwnedBatch(c, batchId);
+    if ('error' in batch) {
+      return c.json({ error: batch.error }, batch.status);
+    }
+
+    const cancelledIds = new Set(await taskDb.cancelBatch(c.env.DB, batchId));
+    for (const task of batch.tasks.filter(t => cancelledIds.has(t.id))) {
+      await taskDb.releaseQuota(c.env.DB, task.id);
+      await publishTaskEvent(c.env, task, 'cancelled');
+    }
+
+    const progress = await taskDb.getBatchProgress(c.env.DB, batchId);
+    return c.json({
+      success: true,
+      batchId,
+      cancelled: cancelledIds.size,
+      processing: progress.processing,
+      progress,
+      message: progress.processing > 0
+        ? `已取消 ${cancelledIds.size} 个任务，${progress.processing} 个处理中的任务将继续完成`
+        : `已取消 ${cancelledIds.size} 个任务`
+    });
+  } catch (error) {
+    console.error('Cancel batch error:', error);
+    return c.json({ error: '取消批次失败' }, 500);
+  }
+});
+
+// ========== 失败任务重试 ==========
+
+/**
+ * 重试的积分消耗：沿用原任务预留的积分，旧任务按存储的输入重新计算
+ */
+async function retryCreditCost(c: AppContext, task: Task): Promise<number> {
+  const reservation = await taskDb.getQuotaReservation(c.env.DB, task.id);
+  if (reservation && reservation.units > 0) {
+    return reservation.units;
+  }
+
+  const input = task.inputData;
+  if (task.type === 'product_shot') {
+    return imageCreditCost((input.config as { outputSize?: string } | undefined)?.outputSize);
+  }
+  if (task.type === 'batch') {
+    return batchCreditCost(
+      (input.combinations as unknown[] | undefined)?.length || 1, input.imageQuality as string | undefined
+    );
+  }
+  return imageCreditCost(input.imageQuality as string | undefined);
+}
+
+/**
+ * 检查任务能否重试：只能重试失败的任务，且功能权限与参考图仍然有效
+ */
+async function checkRetryable(
+  c: AppContext,
+  task: Task
+): Promise<{ error: string; status: ContentfulStatusCode } | null> {
+  if (task.status !== 'failed') {
+    return { error: '只能重试失败的任务', status: 400 };
+  }
+
+  const tierConfig = TIER_CONFIGS[c.get('user').tier || 'free'];
+  if (task.type === 'product_shot' && !tierConfig.features.productShot) {
+    return { error: '产品摄影功能需要 Pro 或 Ultra 会员', status: 403 };
+  }
+
+  // 会员降级后，原任务的模型 / 输出尺寸可能已超出当前等级
+  const input = task.inputData;
+  const options = resolveGenerationOptions(c.get('user').tier || 'free', {
+    model: input.model,
+    imageSize: task.type === 'product_shot'
+      ? (input.config as { outputSize?: string } | undefined)?.outputSize
+      : input.imageQuality
+  });
+  if ('error' in options) {
+    return options;
+  }
+
+  const inputKey = input.inputImageKey as string | undefined;
+  if (inputKey && !(await c.env.R2.head(inputKey))) {
+    return { error: '参考图已过期，请重新上传后创建任务', status: 410 };
+  }
+
+  return null;
+}
+
+// 重试失败的任务：复用原任务的输入，重新扣除积分（失败时已退还），保留 batch_id
+app.post('/api/tasks/:taskId/retry', authMiddleware, rateLimit(10, 60 * 1000), idempotency(), async (c) => {
+  try {
+    const user = c.get('user');
+    const userId = user.userId ?? 0;
+    const task = await taskDb.getById(c.env.DB, c.req.param('taskId'));
+
+    if (!task) {
+      return c.json({ error: '任务不存在' }, 404);
+    }
+    if (task.userId !== userId) {
+      return c.json({ error: '无权访问此任务' }, 403);
+    }
+
+    const problem = await checkRetryable(c, task);
+    if (problem) {
+      return c.json({ error: problem.error }, problem.status);
+    }
+
+    const existing = await taskDb.getRetryId(c.env.DB, task.id);
+    if (existing) {
+      return c.json({ error: '该任务已重试过', retryTaskId: existing }, 409);
+    }
+
+    const retryId = crypto.randomUUID();
+    const cost = await retryCreditCost(c, task);
+    const quotaResult = await userDb.consumeQuota(c.env.DB, userId, cost, retryId);
+    if (!quotaResult.success) {
+      return c.json({ error: quotaResult.error }, 403);
+    }
+
+    const retry = await taskDb.createRetry(c.env.DB, retryId, task, { units: cost, date: quotaResult.quotaDate! });
+    if (!retry) {
+      await creditDb.append(c.env.DB, {
+        userId, kind: 'refund', amount: cost, period: quotaResult.quotaDate!, taskId: retryId, reason: 'task_not_created'
+      });
+      return c.json({ error: '创建重试任务失败' }, 500);
+    }
+    await publishTaskEvent(c.env, retry, 'created', { retryOf: task.id });
+
+    const queuePosition = await taskDb.getQueuePosition(c.env.DB, retry.id);
+    await dispatchTask(c, retry.id, retry.type);
+
+    return c.json({
+      success: true,
+      taskId: retry.id,
+      retryOf: task.id,
+      batchId: retry.batchId,
+      status: retry.status,
+      queuePosition
+    });
+  } catch (error) {
+    console.error('Retry task error:', error);
+    return c.json({ error: '重试任务失败' }, 500);
+  }
+});
+
+// 重试批次中所有失败的任务，结果合并到原批次
+app.post('/api/tasks/batch/:batchId/retry-failed', authMiddleware, rateLimit(5, 60 * 1000), idempotency(), async (c) => {
+  try {
+    const user = c.get('user');
+    const userId = user.userId ?? 0;
+    const batchId = c.req.param('batchId');
+
+    const tasks = await taskDb.getByBatchId(c.env.DB, batchId);
+    if (tasks.length === 0) {
+      return c.json({ error: '批次不存在' }, 404);
+    }
+    if (tasks[0].userId !== userId) {
+      return c.json({ error: '无权访问此批次' }, 403);
+    }
+
+    const failed = tasks.filter(t => t.status === 'failed');
+    if (failed.length === 0) {
+      return c.json({ error: '批次中没有失败的任务' }, 400);
+    }
+
+    for (const task of failed) {
+      const problem = await checkRetryable(c, task);
+      if (problem) {
+        return c.json({ error: problem.error }, problem.status);
+      }
+    }
+
+    // 一次性扣除全部重试的积分，每个重试任务各自预留，失败时单独退还；没能创建的重试立即退还
+    const costs = await Promise.all(failed.map(task => retryCreditCost(c, task)));
+    const quotaResult = await userDb.consumeQuota(
+      c.env.DB, userId, costs.reduce((sum, cost) => sum + cost, 0), batchId
+    );
+    if (!quotaResult.success) {
+      return c.json({ error: quotaResult.error }, 403);
+    }
+
+    const taskIds: string[] = [];
+    for (const [index, task] of failed.entries()) {
+      const retryId = crypto.randomUUID();
+      const retry = await taskDb.createRetry(c.env.DB, retryId, task, {
+        units: costs[index],
+        date: quotaResult.quotaDate!
+      });
+      if (!retry) {
+        await creditDb.append(c.env.DB, {
+          userId, kind: 'refund', amount: costs[index], period: quotaResult.quotaDate!, taskId: retryId, reason: 'task_not_created'
+        });
+        continue;
+      }
+      await publishTaskEvent(c.env, retry, 'created', { retryOf: task.id });
+      taskIds.push(retry.id);
+    }
+    if (taskIds.length === 0) {
+      return c.json({ error: '创建重试任务失败' }, 500);
+    }
+
+    const queuePosition = await taskDb.getQueuePosition(c.env.DB, taskIds[0]);
+    for (const taskId of taskIds) {
+      await dispatchTask(c, taskId, failed[0].type);
+    }
+
+    return c.json({
+      success: true,
+      batchId,
+      taskIds,
+      retried: taskIds.length,
+      queuePosition,
+      message: `正在重试 ${taskIds.length} 个失败的任务`
+    });
+  } catch (error) {
+    console.error('Retry batch error:', error);
+    return c.json({ error: '重试批次失败' }, 500);
+  }
+});
+
 app.get('/api/tasks/queue/stats', async (c) => {
   try {
     const stats = await taskDb.getQueueStats(c.env.DB);
@@ -1663,7 +2692,8 @@ app.get('/api/health', async (c) => {
   return c.json({
     status: 'ok',
     timestamp: new Date().toISOString(),
-    hasApiKey: !!c.env.GEMINI_API_KEY,
+    hasApiKey: !!(c.env.GEMINI_API_KEY || c.env.GEMINI_API_KEYS || c.env.API_KEY_POOL),
+    imageProvider: getImageProvider(c.env).name,
     taskProcessor: 'running',
     queueStats: stats
   });
@@ -1672,19 +2702,51 @@ app.get('/api/health', async (c) => {
 // ========== Cron 触发器（定时清理） ==========
 // 导出 Durable Object 类
 export { TaskMonitor } from './do/TaskMonitor';
+export { CircuitBreaker } from './do/CircuitBreaker';
+export { UserChannel } from './do/UserChannel';
+export { RateLimiter } from './do/RateLimiter';
+export { UpstreamGovernor } from './do/UpstreamGovernor';
+export { ApiKeyPool } from './do/ApiKeyPool';
 
 // ========== WebSocket API ==========
-app.get('/api/ws/task/:taskId', async (c) => {
-  const upgradeHeader = c.req.header('Upgrade');
-  if (!upgradeHeader || upgradeHeader !== 'websocket') {
-    return c.text('Expected Upgrade: websocket', 426);
-  }
 
+/**
+ * 转发给 DO 时带上已验证的身份（覆盖客户端可能伪造的同名请求头）
+ */
+function withIdentity(c: AppContext, session: Session): Request {
+  const headers = new Headers(c.req.raw.headers);
+  headers.set('X-User-Id', String(session.userId ?? 0));
+  headers.set('X-User-Role', session.role);
+  return new Request(c.req.raw, { headers });
+}
+
+app.get('/api/ws/task/:taskId', websocketMiddleware, streamAuthMiddleware, async (c) => {
+  const session = c.get('user');
   const taskId = c.req.param('taskId');
+  const task = await taskDb.getById(c.env.DB, taskId);
+  if (!task) {
+    return c.json({ error: '任务不存在' }, 404);
+  }
+  if (task.userId !== session.userId && session.role !== 'admin') {
+    return c.json({ error: '无权访问此任务' }, 403);
+  }
+
   const id = c.env.TASK_MONITOR.idFromName(taskId);
   const stub = c.env.TASK_MONITOR.get(id);
 
-  return stub.fetch(c.req.raw);
+  return stub.fetch(withIdentity(c, session));
+});
+
+// 用户任务通道：一个连接接收当前用户全部任务 / 批次的状态变化
+// 客户端消息：subscribe / unsubscribe（taskIds、batchIds，不带则为全部）、replay（since）、ping
+// 重连时带上 ?since=<最后收到的 seq> 即可补发断线期间的事件
+app.get('/api/ws/user', websocketMiddleware, streamAuthMiddleware, async (c) => {
+  const session = c.get('user');
+  if (!session.userId) {
+    return c.json({ error: '该账号没有任务通道' }, 403);
+  }
+
+  return getUserChannel(c.env, session.userId).fetch(withIdentity(c, session));
 });
 
 
@@ -1693,34 +2755,65 @@ export default {
 
   // Queue 消费者：处理生成任务
   async queue(batch: MessageBatch<QueueMessage>, env: Env, ctx: ExecutionContext) {
+    // 死信队列：记录重试耗尽的消息及其失败历史，等待管理员重放或丢弃
+    if (batch.queue === DEAD_LETTER_QUEUE) {
+      for (const message of batch.messages) {
+        await deadLetterDb.record(env.DB, message.id, message.body.taskId ?? null, message.body, message.attempts);
+        if (message.body.taskId) {
+          await taskEventDb.record(env.DB, message.body.taskId, 'dead_lettered', {
+            attempt: message.attempts,
+            data: { messageId: message.id }
+          });
+        }
+        message.ack();
+        console.error(`[DLQ] Recorded dead letter for task ${message.body.taskId} (message ${message.id})`);
+      }
+      return;
+    }
+
     console.log(`[Queue] Processing batch of ${batch.messages.length} messages`);
 
-    for (const message of batch.messages) {
-      const { taskId, type } = message.body;
-      console.log(`[Queue] Processing task ${taskId} (type: ${type})`);
+    // 上游熔断期间暂停派发：冷却结束（retryAfterMs 为 0）后继续处理，由 Provider 的 acquire 放行探测请求；
+    // 探测进行中（half_open）时稍后再试。延后通过重新发送信号实现，不消耗消息的 max_retries
+    const breaker = createCircuitBreakerClient(env.CIRCUIT_BREAKER);
+    if (breaker && env.GENERATION_QUEUE) {
+      const status = await breaker.getStatus();
+      if ((status.state === 'open' && status.retryAfterMs > 0) || status.state === 'half_open') {
+        const delaySeconds = Math.max(10, Math.ceil(status.retryAfterMs / 1000));
+        console.warn(`[Queue] Circuit ${status.state}, deferring ${batch.messages.length} messages by ${delaySeconds}s`);
+        await env.GENERATION_QUEUE.sendBatch(batch.messages.map(message => ({ body: message.body })), { delaySeconds });
+        batch.ackAll();
+        return;
+      }
+    }
 
+    // 每条消息对应一个待处理任务，但不按消息中的 taskId 处理，而是认领当前优先级最高的任务：
+    // 高等级任务插队，低等级任务随等待时间提升优先级
+    for (const message of batch.messages) {
       try {
-        // 处理任务
-        await processTask(env, taskId);
+        const claimedId = await processNextTask(env);
+        if (claimedId) {
+          console.log(`[Queue] Processed task ${claimedId} (message for ${message.body.taskId})`);
+        }
 
-        // 确认消息已处理
+        // 确认消息已处理（没有待处理任务时说明已被其他消费者或定时任务处理）
         message.ack();
-        console.log(`[Queue] Task ${taskId} completed successfully`);
       } catch (error: any) {
-        console.error(`[Queue] Task ${taskId} failed:`, error);
-
-        // 更新任务状态为失败
-        await taskDb.fail(env.DB, taskId, error.message || '处理失败');
-
-        // 如果重试次数未用完，重新入队（通过不 ack 实现）
-        // Cloudflare Queues 会自动重试
-        if (message.attempts < 3) {
-          message.retry({ delaySeconds: Math.pow(2, message.attempts) * 10 }); // 指数退避：10s, 20s, 40s
-        } else {
-          // 超过重试次数，移到死信队列
-          message.ack();
-          console.error(`[Queue] Task ${taskId} moved to DLQ after ${message.attempts} attempts`);
-        }
+        // 任务本身的失败与重试由 processTask 处理，这里只会是认领 / 读写任务时的异常，任务状态保持不变
+        const taskId = message.body.taskId;
+        console.error(`[Queue] Failed to process message for ${taskId} (attempt ${message.attempts}):`, error);
+        await Promise.all([
+          deadLetterDb.recordMessageFailure(env.DB, message.id, taskId, message.attempts, error.message || String(error)),
+          taskEventDb.record(env.DB, taskId, 'message_failed', {
+            attempt: message.attempts,
+            errorClass: errorClass(error),
+            message: error.message || String(error),
+            data: { messageId: message.id }
+          })
+        ]).catch(e => console.error('[Queue] Failed to record message failure:', e));
+
+        // 指数退避重试：10s, 20s, 40s；超过 max_retries 后由 Queues 转入死信队列
+        message.retry({ delaySeconds: Math.pow(2, message.attempts - 1) * 10 });
       }
     }
   },
@@ -1732,6 +2825,25 @@ export default {
     const resetTasks = await taskDb.resetStuckTasks(env.DB);
     if (resetTasks > 0) {
       console.log(`[Cron] Reset ${resetTasks} stuck tasks`);
+
+      // 原消息已被消费，为重置的任务补发队列信号
+      if (env.GENERATION_QUEUE) {
+        const pending = await taskDb.getPending(env.DB, resetTasks);
+        await env.GENERATION_QUEUE.sendBatch(pending.map(task => ({
+          body: { taskId: task.id, type: task.type, timestamp: Date.now() }
+        })));
+      }
+    }
+
+    // 长时间未被认领的任务（信号丢失或已进入死信队列）补发队列信号
+    if (env.GENERATION_QUEUE) {
+      const stale = await taskDb.getStalePending(env.DB);
+      if (stale.length > 0) {
+        await env.GENERATION_QUEUE.sendBatch(stale.map(task => ({
+          body: { taskId: task.id, type: task.type, timestamp: Date.now() }
+        })));
+        console.log(`[Cron] Re-signalled ${stale.length} stale pending tasks`);
+      }
     }
 
     // 如果 Queue 未配置，继续使用轮询处理
@@ -1742,6 +2854,12 @@ export default {
       }
     }
 
+    // 上次图片清理未完成时，由 5 分钟定时任务继续
+    if (!isDailyCleanup && await hasPendingRetention(env.SESSION_KV)) {
+      const retention = await enforceImageRetention(env.R2, env.DB, env.SESSION_KV);
+      console.log(`[Cron] Resumed retention cleanup, deleted ${retention.deleted} images`);
+    }
+
     // Daily cleanup only (runs at 3 AM)
     if (isDailyCleanup) {
       console.log('[Cron] Running daily cleanup...');
@@ -1749,11 +2867,28 @@ export default {
       const cleanedSessions = await sessionDb.cleanup(env.DB);
       console.log(`[Cron] Cleaned ${cleanedSessions} expired sessions`);
 
-      const cleanedImages = await cleanupOldImages(env.R2, env.DB, 30);
-      console.log(`[Cron] Cleaned ${cleanedImages} expired images`);
+      // 按等级保存期限：先提醒即将过期的图片，再分块删除已过期的
+      const warnedUsers = await sendExpiryWarnings(env.DB);
+      console.log(`[Cron] Sent expiry warnings to ${warnedUsers} users`);
+
+      const retention = await enforceImageRetention(env.R2, env.DB, env.SESSION_KV);
+      console.log(`[Cron] Cleaned ${retention.deleted} expired images${retention.done ? '' : ' (will resume)'}`);
 
       const cleanedTasks = await taskDb.cleanup(env.DB, 7);
       console.log(`[Cron] Cleaned ${cleanedTasks} expired tasks`);
+
+      const cleanedEvents = await taskEventDb.cleanup(env.DB, 30);
+      console.log(`[Cron] Cleaned ${cleanedEvents} task audit events`);
+
+      const cleanedUploads = await uploadDb.cleanup(env.DB, 7);
+      console.log(`[Cron] Cleaned ${cleanedUploads} expired uploads`);
+
+      const cleanedKeys = await idempotencyDb.cleanup(env.DB);
+      console.log(`[Cron] Cleaned ${cleanedKeys} expired idempotency keys`);
+
+      // 任务与上传记录清理后，不再被引用的参考图一并回收
+      const cleanedInputs = await cleanupUnreferencedInputs(env.R2, env.DB);
+      console.log(`[Cron] Cleaned ${cleanedInputs} unreferenced input images`);
     }
   }
 };
@@ -0,0 +1,45 @@
+/**
+ * 生成进度阶段
+ *
+ * 单张图片任务按固定阶段推进，每个阶段对应一个进度百分比（startProcessing 为 10，完成为 100）。
+ */
+
+import type { ImageProvider } from './providers';
+
+export type GenerationStage =
+  | 'input_loaded'      // 参考图已读取
+  | 'prompt_built'      // 提示词已生成
+  | 'request_sent'      // 已请求模型
+  | 'image_received'    // 已收到模型返回的图片
+  | 'fidelity_checked'  // 已完成还原度质检（开启 FIDELITY_QA 时）
+  | 'stored'            // 原图已写入 R2
+  | 'thumbnails_built'; // 缩略图 / 中图已生成
+
+export const STAGE_PROGRESS: Record<GenerationStage, number> = {
+  input_loaded: 20,
+  prompt_built: 30,
+  request_sent: 40,
+  image_received: 75,
+  fidelity_checked: 80,
+  stored: 85,
+  thumbnails_built: 95
+};
+
+export type StageReporter = (stage: GenerationStage) => Promise<void>;
+
+/**
+ * 包装 Provider：提示词在调用 generateImage 前已拼好，以调用 / 返回作为阶段边界
+ */
+export function withStageReporting(provider: ImageProvider, onStage: StageReporter): ImageProvider {
+  return {
+    name: provider.name,
+    async generateImage(request) {
+      await onStage('prompt_built');
+      await onStage('request_sent');
+      const image = await provider.generateImage(request);
+      await onStage('image_received');
+      return image;
+    }
+  };
+}
+
@@ -0,0 +1,61 @@
+// 熔断器客户端：封装对 CircuitBreaker Durable Object 的调用
+import type { CircuitStatus } from '../do/CircuitBreaker';
+
+// 所有 Gemini 调用共享同一个熔断器实例
+const BREAKER_NAME = 'gemini';
+
+export interface CircuitBreakerClient {
+  acquire(): Promise<{ allowed: boolean; status: CircuitStatus }>;
+  record(success: boolean, reason?: string): Promise<void>;
+  // 交还半开状态下获得的探测名额（请求未发往上游）
+  release(): Promise<void>;
+  getStatus(): Promise<CircuitStatus>;
+  reset(): Promise<CircuitStatus>;
+}
+
+/**
+ * 创建熔断器客户端；未绑定 CIRCUIT_BREAKER 时返回 null（本地开发）
+ */
+export function createCircuitBreakerClient(namespace?: DurableObjectNamespace): CircuitBreakerClient | null {
+  if (!namespace) return null;
+
+  const stub = namespace.get(namespace.idFromName(BREAKER_NAME));
+
+  return {
+    acquire: async () => {
+      const response = await stub.fetch('http://do/acquire', { method: 'POST' });
+      return response.json();
+    },
+
+    record: async (success: boolean, reason?: string) => {
+      try {
+        await stub.fetch('http://do/record', {
+          method: 'POST',
+          body: JSON.stringify({ success, reason })
+        });
+      } catch (e) {
+        // 上报失败不影响生成结果
+        console.error('[CircuitBreaker] Failed to record result:', e);
+      }
+    },
+
+    release: async () => {
+      try {
+        await stub.fetch('http://do/release', { method: 'POST' });
+      } catch (e) {
+        // 交还失败时探测名额在 PROBE_TIMEOUT_MS 后自动释放
+        console.error('[CircuitBreaker] Failed to release probe:', e);
+      }
+    },
+
+    getStatus: async () => {
+      const response = await stub.fetch('http://do/state');
+      return response.json();
+    },
+
+    reset: async () => {
+      const response = await stub.fetch('http://do/reset', { method: 'POST' });
+      return response.json();
+    }
+  };
+}
@@ -0,0 +1,373 @@
+// Gemini REST API 直接调用（兼容 Cloudflare Workers）
+import type { ImageProvider, ImageGenerationRequest } from './index';
+import type { CircuitBreakerClient } from './breaker';
+import type { UpstreamGovernorClient } from './governor';
+import type { ApiKeyPoolClient } from './keyPool';
+import type { KeyFailureKind } from '../do/ApiKeyPool';
+import { MODEL_IMAGE_SIZES } from '../types';
+import {
+  GenerationError, QuotaExceededError, SafetyBlockError, UpstreamTimeoutError,
+  UpstreamUnavailableError, InvalidImageError, ProviderConfigError, UpstreamBudgetError,
+  KeyPoolExhaustedError
+} from '../errors';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+// 单次请求截止时间
+const IMAGE_REQUEST_TIMEOUT_MS = 120_000;
+const TEXT_REQUEST_TIMEOUT_MS = 30_000;
+
+// 重试策略：指数退避 + 全抖动
+const MAX_RETRIES = 2;
+const BACKOFF_BASE_MS = 1_000;
+const BACKOFF_MAX_MS = 16_000;
+
+// 值得重试的 HTTP 状态码
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+// 上游 imageConfig.aspectRatio 接受的宽高比（其余比例只通过提示词描述）
+const SUPPORTED_ASPECT_RATIOS = new Set(['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9']);
+
+// 表示内容被拦截的 finishReason
+const SAFETY_FINISH_REASONS = new Set(['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
+
+export interface CallOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+  // 全局请求预算：每次发送（含重试）前取得名额
+  governor?: UpstreamGovernorClient | null;
+  // API key 池：每次发送前租用一个 key（配置后忽略 apiKey 参数）
+  keyPool?: ApiKeyPoolClient | null;
+}
+
+// 所有上游调用共享的协调组件
+export type UpstreamOptions = Pick<CallOptions, 'governor' | 'keyPool'>;
+
+export interface GeminiResponse {
+  candidates?: Array<{
+    finishReason?: string;
+    content?: {
+      parts?: Array<{
+        text?: string;
+        inlineData?: {
+          mimeType: string;
+          data: string;
+        };
+      }>;
+    };
+  }>;
+  promptFeedback?: {
+    blockReason?: string;
+  };
+  error?: {
+    message: string;
+    code: number;
+  };
+}
+
+/**
+ * 计算第 attempt 次重试前的等待时间（全抖动）
+ */
+function backoffDelay(attempt: number, retryAfterMs: number | null): number {
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, BACKOFF_MAX_MS);
+  }
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * Math.pow(2, attempt));
+  return Math.floor(Math.random() * ceiling);
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+/**
+ * 将非 2xx 响应转换为结构化错误
+ */
+function toHttpError(status: number, body: string, retryAfterMs: number | null): GenerationError {
+  if (status === 429) {
+    return new QuotaExceededError(`Gemini API 请求失败 (${status}): ${body}`, retryAfterMs);
+  }
+  if (status >= 500) {
+    return new UpstreamUnavailableError(`Gemini API 请求失败 (${status}): ${body}`, retryAfterMs);
+  }
+  if (status === 401 || status === 403) {
+    return new ProviderConfigError(`Gemini API 请求失败 (${status}): ${body}`);
+  }
+  // 其他 4xx：请求本身有问题，重试无意义
+  return new GenerationError('UPSTREAM_UNAVAILABLE', `Gemini API 请求失败 (${status}): ${body}`, {
+    retryable: false,
+    httpStatus: 502,
+    userMessage: 'AI 服务请求失败，请检查输入后重试'
+  });
+}
+
+/**
+ * 需要让 key 冷却的失败：限额（429）或 key 失效 / 无权限（401/403）
+ */
+function keyFailureKind(error: unknown): KeyFailureKind | null {
+  if (error instanceof UpstreamBudgetError) return null;
+  if (error instanceof QuotaExceededError) return 'quota';
+  if (error instanceof ProviderConfigError) return 'auth';
+  return null;
+}
+
+/**
+ * 单次 HTTP 调用，带截止时间
+ */
+async function fetchOnce(url: string, apiKey: string, requestBody: unknown, timeoutMs: number): Promise<GeminiResponse> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey  // API Key 在 Header 中传递，不会被 URL 日志记录
+      },
+      body: JSON.stringify(requestBody),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+  } catch (error: any) {
+    if (error?.name === 'TimeoutError' || error?.name === 'AbortError') {
+      throw new UpstreamTimeoutError(timeoutMs);
+    }
+    throw new UpstreamUnavailableError(`Gemini API 网络错误: ${error?.message || error}`);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`[Gemini API Error] Status: ${response.status}, Body: ${errorText}`);
+    throw toHttpError(response.status, errorText, parseRetryAfter(response.headers.get('retry-after')));
+  }
+
+  return response.json();
+}
+
+/**
+ * 调用 Gemini REST API
+ *
+ * 每次请求有独立的截止时间；429/5xx/超时/网络错误按指数退避重试，
+ * 其余错误直接抛出对应的 GenerationError。
+ */
+export async function callGeminiAPI(
+  apiKey: string,
+  model: string,
+  contents: any,
+  config?: {
+    systemInstruction?: string;
+    responseMimeType?: string;
+    temperature?: number;
+    imageConfig?: {
+      aspectRatio?: string;
+      imageSize?: string;
+    };
+  },
+  options: CallOptions = {}
+): Promise<GeminiResponse> {
+  if (!apiKey && !options.keyPool) {
+    throw new ProviderConfigError('GEMINI_API_KEY 未配置');
+  }
+
+  // 使用 Header 传递 API Key，避免在 URL 中暴露（更安全，不会被日志记录）
+  const url = `${GEMINI_API_BASE}/${model}:generateContent`;
+
+  const requestBody: any = {
+    contents: [{ parts: contents.parts }]
+  };
+
+  // 添加系统指令
+  if (config?.systemInstruction) {
+    requestBody.systemInstruction = {
+      parts: [{ text: config.systemInstruction }]
+    };
+  }
+
+  // 添加生成配置
+  const generationConfig: any = {};
+  if (config?.responseMimeType) {
+    generationConfig.responseMimeType = config.responseMimeType;
+  }
+  if (config?.temperature !== undefined) {
+    generationConfig.temperature = config.temperature;
+  }
+  // 图片生成配置
+  if (config?.imageConfig) {
+    generationConfig.responseModalities = ['IMAGE', 'TEXT'];
+    const { aspectRatio, imageSize } = config.imageConfig;
+    const imageConfig: { aspectRatio?: string; imageSize?: string } = {};
+    if (aspectRatio && SUPPORTED_ASPECT_RATIOS.has(aspectRatio)) {
+      imageConfig.aspectRatio = aspectRatio;
+    }
+    // 只有支持多档尺寸的模型接受 imageSize
+    if (imageSize && (MODEL_IMAGE_SIZES[model] as readonly string[] | undefined)?.includes(imageSize)) {
+      imageConfig.imageSize = imageSize;
+    }
+    if (Object.keys(imageConfig).length > 0) {
+      generationConfig.imageConfig = imageConfig;
+    }
+  }
+  if (Object.keys(generationConfig).length > 0) {
+    requestBody.generationConfig = generationConfig;
+  }
+
+  const timeoutMs = options.timeoutMs ?? (config?.imageConfig ? IMAGE_REQUEST_TIMEOUT_MS : TEXT_REQUEST_TIMEOUT_MS);
+  const maxRetries = options.maxRetries ?? MAX_RETRIES;
+
+  const keyPool = options.keyPool || null;
+
+  for (let attempt = 0; ; attempt++) {
+    let leasedKeyId: string | null = null;
+    try {
+      await options.governor?.acquire();
+
+      let key = apiKey;
+      if (keyPool) {
+        const lease = await keyPool.acquire();
+        if (lease.id === null) {
+          throw new KeyPoolExhaustedError(lease.retryAfterMs);
+        }
+        leasedKeyId = lease.id;
+        key = lease.key;
+      }
+
+      const response = await fetchOnce(url, key, requestBody, timeoutMs);
+      if (leasedKeyId) {
+        await keyPool!.report(leasedKeyId, true);
+      }
+      return response;
+    } catch (error) {
+      // key 本身的问题：该 key 进入冷却，换一个 key 立即重试
+      const kind = leasedKeyId ? keyFailureKind(error) : null;
+      if (leasedKeyId) {
+        await keyPool!.report(leasedKeyId, false, {
+          kind: kind ?? undefined,
+          retryAfterMs: error instanceof QuotaExceededError ? error.retryAfterMs : null,
+          reason: error instanceof GenerationError ? error.code : undefined
+        });
+      }
+
+      if (!(error instanceof GenerationError) || !(error.retryable || kind) || attempt >= maxRetries) {
+        throw error;
+      }
+      const retryAfterMs = error instanceof QuotaExceededError || error instanceof UpstreamUnavailableError
+        ? error.retryAfterMs
+        : null;
+      const delay = kind ? 0 : backoffDelay(attempt, retryAfterMs);
+      console.warn(`[Gemini] ${error.code} on attempt ${attempt + 1}/${maxRetries + 1}, retrying in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * 从响应中提取图片数据
+ */
+export function extractImageFromResponse(response: GeminiResponse): string {
+  if (response.promptFeedback?.blockReason) {
+    throw new SafetyBlockError(response.promptFeedback.blockReason);
+  }
+
+  const candidate = response.candidates?.[0];
+  if (candidate?.content?.parts) {
+    for (const part of candidate.content.parts) {
+      if (part.inlineData) {
+        return `data:image/png;base64,${part.inlineData.data}`;
+      }
+    }
+  }
+
+  if (candidate?.finishReason && SAFETY_FINISH_REASONS.has(candidate.finishReason)) {
+    throw new SafetyBlockError(candidate.finishReason);
+  }
+  throw new InvalidImageError("响应中未找到图片数据");
+}
+
+/**
+ * 从响应中提取文本
+ */
+export function extractTextFromResponse(response: GeminiResponse): string | null {
+  if (response.candidates?.[0]?.content?.parts?.[0]?.text) {
+    return response.candidates[0].content.parts[0].text;
+  }
+  return null;
+}
+
+/**
+ * 是否应计入熔断器的失败次数（只统计上游健康问题，不统计内容拦截等）
+ */
+function isUpstreamFailure(error: unknown): boolean {
+  return error instanceof QuotaExceededError
+    || error instanceof UpstreamUnavailableError
+    || error instanceof UpstreamTimeoutError;
+}
+
+/**
+ * Gemini 图片生成 Provider
+ */
+export function createGeminiProvider(
+  apiKey: string,
+  options: { breaker?: CircuitBreakerClient | null } & UpstreamOptions = {}
+): ImageProvider {
+  const breaker = options.breaker || null;
+  const upstream: UpstreamOptions = { governor: options.governor, keyPool: options.keyPool };
+
+  return {
+    name: 'gemini',
+
+    generateImage: async (request: ImageGenerationRequest): Promise<string> => {
+      // 缺少配置时直接失败，不占用熔断器的探测名额
+      if (!apiKey && !upstream.keyPool) {
+        throw new ProviderConfigError('GEMINI_API_KEY 未配置');
+      }
+
+      // 熔断打开时不再向上游发送请求；半开状态下放行的是探测请求
+      let probing = false;
+      if (breaker) {
+        const { allowed, status } = await breaker.acquire();
+        if (!allowed) {
+          throw new UpstreamUnavailableError(`Circuit open: ${status.lastFailureReason || 'upstream unavailable'}`, status.retryAfterMs);
+        }
+        probing = status.state === 'half_open';
+      }
+
+      const parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> = [];
+      if (request.referenceImage) {
+        parts.push({ inlineData: request.referenceImage });
+      }
+      parts.push({ text: request.prompt });
+
+      try {
+        const response = await callGeminiAPI(
+          apiKey,
+          request.model,
+          { parts },
+          {
+            systemInstruction: request.systemInstruction,
+            imageConfig: {
+              aspectRatio: request.aspectRatio,
+              imageSize: request.imageSize
+            }
+          },
+          upstream
+        );
+        const image = extractImageFromResponse(response);
+        await breaker?.record(true);
+        return image;
+      } catch (error) {
+        if (error instanceof UpstreamBudgetError || error instanceof KeyPoolExhaustedError) {
+          // 本地预算排满或 key 全部冷却时请求没有发往上游，不影响熔断状态，探测名额交还给下一个请求
+          if (probing) await breaker?.release();
+          throw error;
+        }
+        if (isUpstreamFailure(error)) {
+          await breaker?.record(false, (error as GenerationError).code);
+        } else if (error instanceof GenerationError) {
+          // 上游有正常响应（如内容拦截），说明服务可用
+          await breaker?.record(true);
+        }
+        throw error;
+      }
+    }
+  };
+}
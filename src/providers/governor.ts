@@ -0,0 +1,62 @@
+// 上游并发调度器客户端：封装对 UpstreamGovernor Durable Object 的调用
+import type { GovernorGrant, GovernorStatus } from '../do/UpstreamGovernor';
+import type { Env } from '../types';
+import { UpstreamBudgetError } from '../errors';
+
+// 所有 Gemini 调用共享同一个令牌桶
+const GOVERNOR_NAME = 'gemini';
+// 默认每分钟请求预算（可通过 GEMINI_RPM 配置）
+const DEFAULT_RPM = 60;
+// 单次调用最多排队等待的时间，超过则按上游限流处理（任务稍后重试）
+const MAX_WAIT_MS = 20_000;
+
+export interface UpstreamGovernorClient {
+  /**
+   * 取得一个请求名额；需要排队时等待预留的时间后返回
+   * @throws UpstreamBudgetError 预算已排满，等待时间超过上限
+   */
+  acquire(): Promise<void>;
+  getStatus(): Promise<GovernorStatus>;
+}
+
+/**
+ * 创建调度器客户端；未绑定 UPSTREAM_GOVERNOR 时返回 null（本地开发，不限速）
+ */
+export function createUpstreamGovernorClient(
+  env: Pick<Env, 'UPSTREAM_GOVERNOR' | 'GEMINI_RPM'>
+): UpstreamGovernorClient | null {
+  const namespace = env.UPSTREAM_GOVERNOR;
+  if (!namespace) return null;
+
+  const stub = namespace.get(namespace.idFromName(GOVERNOR_NAME));
+  const rpm = Math.max(1, parseInt(env.GEMINI_RPM || '', 10) || DEFAULT_RPM);
+
+  return {
+    acquire: async () => {
+      let grant: GovernorGrant;
+      try {
+        const response = await stub.fetch('http://do/acquire', {
+          method: 'POST',
+          body: JSON.stringify({ rpm, maxWaitMs: MAX_WAIT_MS })
+        });
+        grant = await response.json();
+      } catch (e) {
+        // 调度器不可用时不阻塞生成
+        console.error('[Governor] Failed to acquire slot:', e);
+        return;
+      }
+
+      if (!grant.granted) {
+        throw new UpstreamBudgetError(rpm, grant.retryAfterMs);
+      }
+      if (grant.waitMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, grant.waitMs));
+      }
+    },
+
+    getStatus: async () => {
+      const response = await stub.fetch(`http://do/state?rpm=${rpm}`);
+      return response.json();
+    }
+  };
+}
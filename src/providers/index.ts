@@ -0,0 +1,71 @@
+/**
+ * 图片生成 Provider 层
+ *
+ * 所有生图函数（src/gemini.ts）都通过 ImageProvider 调用后端，
+ * 具体实现按环境变量 IMAGE_PROVIDER 选择：
+ * - gemini（默认）：调用 Gemini REST API
+ * - stub：本地确定性占位图，无需网络（开发环境 / CI）
+ */
+
+import type { Env } from '../types';
+import { createGeminiProvider } from './gemini';
+import { createStubProvider } from './stub';
+import { createCircuitBreakerClient } from './breaker';
+import { createUpstreamGovernorClient } from './governor';
+import { createApiKeyPoolClient } from './keyPool';
+import type { UpstreamOptions } from './gemini';
+
+export type ImageProviderName = 'gemini' | 'stub';
+
+// 参考图
+export interface ReferenceImage {
+  mimeType: string;
+  data: string; // base64（不含 data: 前缀）
+}
+
+// 单次生图请求（与具体后端无关）
+export interface ImageGenerationRequest {
+  model: string;
+  prompt: string;
+  referenceImage?: ReferenceImage;
+  systemInstruction?: string;
+  aspectRatio?: string;
+  imageSize?: string;
+}
+
+export interface ImageProvider {
+  readonly name: ImageProviderName;
+  /**
+   * 生成图片
+   * @returns data URL 格式的图片（data:image/png;base64,...）
+   */
+  generateImage(request: ImageGenerationRequest): Promise<string>;
+}
+
+/**
+ * Gemini 调用共享的请求预算与 key 池（未绑定对应 Durable Object 时为 null）
+ */
+export function getUpstreamOptions(env: Env): UpstreamOptions {
+  return {
+    governor: createUpstreamGovernorClient(env),
+    keyPool: createApiKeyPoolClient(env)
+  };
+}
+
+/**
+ * 根据环境选择图片生成 Provider
+ */
+export function getImageProvider(env: Env): ImageProvider {
+  const name = (env.IMAGE_PROVIDER || 'gemini') as ImageProviderName;
+
+  if (name === 'stub') {
+    return createStubProvider();
+  }
+  if (name !== 'gemini') {
+    console.warn(`[Provider] Unknown IMAGE_PROVIDER "${name}", falling back to gemini`);
+  }
+  return createGeminiProvider(env.GEMINI_API_KEY, {
+    breaker: createCircuitBreakerClient(env.CIRCUIT_BREAKER),
+    ...getUpstreamOptions(env)
+  });
+}
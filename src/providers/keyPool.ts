@@ -0,0 +1,76 @@
+// Gemini API key 池客户端：封装对 ApiKeyPool Durable Object 的调用
+import type { ApiKeyInfo, KeyFailureKind, KeyLease, KeySelectionStrategy } from '../do/ApiKeyPool';
+import type { Env } from '../types';
+
+const POOL_NAME = 'gemini';
+
+export interface ApiKeyPoolClient {
+  // 租用一个可用的 key；全部冷却中时 id 为 null
+  acquire(): Promise<KeyLease>;
+  // 上报调用结果：kind 表示需要冷却的失败类型
+  report(id: string, success: boolean, failure?: { kind?: KeyFailureKind; retryAfterMs?: number | null; reason?: string }): Promise<void>;
+  list(): Promise<ApiKeyInfo[]>;
+  add(key: string, label?: string): Promise<ApiKeyInfo | { error: string }>;
+  setDisabled(id: string, disabled: boolean): Promise<ApiKeyInfo | null>;
+  remove(id: string): Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * 创建 key 池客户端；未绑定 API_KEY_POOL 时返回 null（只使用 GEMINI_API_KEY）
+ */
+export function createApiKeyPoolClient(
+  env: Pick<Env, 'API_KEY_POOL' | 'GEMINI_KEY_STRATEGY'>
+): ApiKeyPoolClient | null {
+  const namespace = env.API_KEY_POOL;
+  if (!namespace) return null;
+
+  const stub = namespace.get(namespace.idFromName(POOL_NAME));
+  const strategy: KeySelectionStrategy = env.GEMINI_KEY_STRATEGY === 'round_robin' ? 'round_robin' : 'least_used';
+
+  return {
+    acquire: async () => {
+      const response = await stub.fetch('http://do/acquire', {
+        method: 'POST',
+        body: JSON.stringify({ strategy })
+      });
+      return response.json();
+    },
+
+    report: async (id, success, failure = {}) => {
+      try {
+        await stub.fetch('http://do/report', {
+          method: 'POST',
+          body: JSON.stringify({ id, success, ...failure })
+        });
+      } catch (e) {
+        // 上报失败不影响生成结果
+        console.error('[ApiKeyPool] Failed to report key result:', e);
+      }
+    },
+
+    list: async () => {
+      const response = await stub.fetch('http://do/keys');
+      return response.json();
+    },
+
+    add: async (key, label) => {
+      const response = await stub.fetch('http://do/keys', {
+        method: 'POST',
+        body: JSON.stringify({ key, label })
+      });
+      return response.json();
+    },
+
+    setDisabled: async (id, disabled) => {
+      const response = await stub.fetch(`http://do/keys/${encodeURIComponent(id)}/${disabled ? 'disable' : 'enable'}`, {
+        method: 'POST'
+      });
+      return response.ok ? response.json() : null;
+    },
+
+    remove: async (id) => {
+      const response = await stub.fetch(`http://do/keys/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      return response.json();
+    }
+  };
+}
@@ -0,0 +1,170 @@
+// 本地 Stub Provider：不访问网络，返回确定性的占位 PNG（用于开发环境与 CI）
+import type { ImageProvider, ImageGenerationRequest } from './index';
+
+// 占位图长边像素数
+const PLACEHOLDER_LONG_EDGE = 128;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * FNV-1a 哈希，用于从请求内容派生确定性的颜色
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function writeUint32(target: Uint8Array, offset: number, value: number) {
+  target[offset] = (value >>> 24) & 0xff;
+  target[offset + 1] = (value >>> 16) & 0xff;
+  target[offset + 2] = (value >>> 8) & 0xff;
+  target[offset + 3] = value & 0xff;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  writeUint32(chunk, 0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  writeUint32(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * zlib 封装的未压缩 deflate（stored blocks），无需压缩库
+ */
+function zlibStore(raw: Uint8Array): Uint8Array {
+  const MAX_BLOCK = 65535;
+  const blockCount = Math.max(1, Math.ceil(raw.length / MAX_BLOCK));
+  const out = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+  out[0] = 0x78;
+  out[1] = 0x01;
+
+  let offset = 2;
+  for (let i = 0; i < blockCount; i++) {
+    const start = i * MAX_BLOCK;
+    const len = Math.min(MAX_BLOCK, raw.length - start);
+    out[offset++] = i === blockCount - 1 ? 1 : 0;
+    out[offset++] = len & 0xff;
+    out[offset++] = (len >>> 8) & 0xff;
+    out[offset++] = ~len & 0xff;
+    out[offset++] = (~len >>> 8) & 0xff;
+    out.set(raw.subarray(start, start + len), offset);
+    offset += len;
+  }
+
+  writeUint32(out, offset, adler32(raw));
+  return out;
+}
+
+/**
+ * 按宽高比计算占位图尺寸
+ */
+function placeholderSize(aspectRatio?: string): { width: number; height: number } {
+  const [w, h] = (aspectRatio || '1:1').split(':').map(Number);
+  if (!w || !h) return { width: PLACEHOLDER_LONG_EDGE, height: PLACEHOLDER_LONG_EDGE };
+  return w >= h
+    ? { width: PLACEHOLDER_LONG_EDGE, height: Math.max(1, Math.round(PLACEHOLDER_LONG_EDGE * h / w)) }
+    : { width: Math.max(1, Math.round(PLACEHOLDER_LONG_EDGE * w / h)), height: PLACEHOLDER_LONG_EDGE };
+}
+
+/**
+ * 生成确定性的渐变占位 PNG（相同输入始终得到相同字节）
+ */
+export function renderPlaceholderPng(seed: string, aspectRatio?: string): Uint8Array {
+  const { width, height } = placeholderSize(aspectRatio);
+  const hash = fnv1a(seed);
+  const base = [(hash >>> 16) & 0xff, (hash >>> 8) & 0xff, hash & 0xff];
+
+  // 每行: 1 字节过滤类型 + RGB 像素
+  const stride = width * 3 + 1;
+  const raw = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * stride] = 0;
+    for (let x = 0; x < width; x++) {
+      const shade = Math.floor(((x + y) / (width + height)) * 96);
+      const offset = y * stride + 1 + x * 3;
+      raw[offset] = (base[0] + shade) & 0xff;
+      raw[offset + 1] = (base[1] + shade) & 0xff;
+      raw[offset + 2] = (base[2] + shade) & 0xff;
+    }
+  }
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8;  // bit depth
+  header[9] = 2;  // color type: RGB
+
+  const signature = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const parts = [
+    signature,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStore(raw)),
+    pngChunk('IEND', new Uint8Array(0))
+  ];
+
+  const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Stub 图片生成 Provider
+ */
+export function createStubProvider(): ImageProvider {
+  return {
+    name: 'stub',
+
+    generateImage: async (request: ImageGenerationRequest): Promise<string> => {
+      const seed = [request.model, request.imageSize, request.aspectRatio, request.prompt].join('|');
+      const png = renderPlaceholderPng(seed, request.aspectRatio);
+      console.log(`[StubProvider] Generated placeholder ${request.aspectRatio || '1:1'} (${png.length} bytes)`);
+      return `data:image/png;base64,${toBase64(png)}`;
+    }
+  };
+}
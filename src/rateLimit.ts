@@ -1,44 +1,119 @@
 import type { Context, Next } from 'hono';
-import type { Env } from './types';
+import type { RateLimitCheck, RateLimitResult } from './do/RateLimiter';
+import { TIER_CONFIGS } from './types';
+import type { Env, Session, UserTier } from './types';
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
-}
+type RateLimitContext = Context<{ Bindings: Env; Variables: { user: Session } }>;
+
+// ========== 本地回退（未绑定 RATE_LIMITER 时，计数只在当前 isolate 内有效） ==========
 
-const limiters = new Map<string, RateLimitEntry>();
+const localWindows = new Map<string, number[]>();
 
 // Periodic cleanup to prevent memory leaks
 let lastCleanup = Date.now();
 const CLEANUP_INTERVAL = 60_000; // 1 minute
 
-function cleanup() {
+function checkLocal(identity: string, { rule, limit, windowMs }: RateLimitCheck): RateLimitResult {
   const now = Date.now();
-  if (now - lastCleanup < CLEANUP_INTERVAL) return;
-  lastCleanup = now;
-  for (const [key, entry] of limiters) {
-    if (now > entry.resetAt) limiters.delete(key);
+  if (now - lastCleanup >= CLEANUP_INTERVAL) {
+    lastCleanup = now;
+    // 超过 1 小时没有请求的计数直接丢弃
+    for (const [key, timestamps] of localWindows) {
+      if ((timestamps[timestamps.length - 1] ?? 0) < now - CLEANUP_INTERVAL * 60) localWindows.delete(key);
+    }
   }
+
+  const key = `${identity}:${rule}`;
+  const timestamps = (localWindows.get(key) ?? []).filter(t => t > now - windowMs);
+  const allowed = timestamps.length < limit;
+  if (allowed) timestamps.push(now);
+  localWindows.set(key, timestamps);
+
+  const resetMs = timestamps.length > 0 ? Math.max(0, timestamps[0] + windowMs - now) : 0;
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - timestamps.length),
+    resetMs,
+    retryAfterMs: allowed ? 0 : resetMs
+  };
 }
 
-export function rateLimit(maxRequests: number, windowMs: number) {
-  return async (c: Context<{ Bindings: Env }>, next: Next) => {
-    cleanup();
+// ========== 限流 ==========
 
-    const ip = c.req.header('cf-connecting-ip') || c.req.header('x-forwarded-for') || 'unknown';
-    const key = `${ip}:${c.req.path}`;
-    const now = Date.now();
+/**
+ * 限流身份：已登录用户按 user id，否则按 IP
+ *
+ * 不使用请求自带的 API key 等未经校验的标识，否则换一个值就能得到新的额度。
+ */
+function resolveIdentity(c: RateLimitContext): string {
+  const user = c.get('user') as Session | undefined;
+  if (user) {
+    return user.userId !== null ? `user:${user.userId}` : `admin:${user.username}`;
+  }
 
-    const entry = limiters.get(key);
-    if (entry && now < entry.resetAt) {
-      if (entry.count >= maxRequests) {
-        return c.json({ error: '请求过于频繁，请稍后再试' }, 429);
+  const ip = c.req.header('cf-connecting-ip') || c.req.header('x-forwarded-for') || 'unknown';
+  return `ip:${ip}`;
+}
+
+/**
+ * 限流中间件（滑动窗口，计数由 RateLimiter Durable Object 跨实例共享）
+ *
+ * 需要按用户限流的路由应放在 authMiddleware 之后；未登录请求按 IP 计数。
+ * 登录用户的限额为 maxRequests × 等级倍数（TierConfig.rateLimitMultiplier），
+ * 也可以通过 tierLimits 为某个路由单独指定各等级的限额。
+ * 响应带 RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset，超限时返回 429 与 Retry-After。
+ */
+export function rateLimit(
+  maxRequests: number,
+  windowMs: number,
+  tierLimits: Partial<Record<UserTier, number>> = {}
+) {
+  return async (c: RateLimitContext, next: Next) => {
+    const user = c.get('user') as Session | undefined;
+    const tier = user?.tier;
+    const limit = tier
+      ? tierLimits[tier] ?? Math.ceil(maxRequests * TIER_CONFIGS[tier].rateLimitMultiplier)
+      : maxRequests;
+
+    const identity = resolveIdentity(c);
+    const check: RateLimitCheck = { rule: `${c.req.method} ${c.req.routePath}`, limit, windowMs };
+
+    let result: RateLimitResult;
+    if (c.env.RATE_LIMITER) {
+      try {
+        const stub = c.env.RATE_LIMITER.get(c.env.RATE_LIMITER.idFromName(identity));
+        const response = await stub.fetch('http://do/check', {
+          method: 'POST',
+          body: JSON.stringify(check)
+        });
+        result = await response.json();
+      } catch (e) {
+        // 限流服务不可用时回退到本地计数，避免影响正常请求
+        console.error('[RateLimit] Durable Object check failed:', e);
+        result = checkLocal(identity, check);
       }
-      entry.count++;
     } else {
-      limiters.set(key, { count: 1, resetAt: now + windowMs });
+      result = checkLocal(identity, check);
+    }
+
+    const headers = {
+      'RateLimit-Limit': String(result.limit),
+      'RateLimit-Remaining': String(result.remaining),
+      'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+      'RateLimit-Policy': `${result.limit};w=${Math.ceil(windowMs / 1000)}`
+    };
+
+    if (!result.allowed) {
+      return c.json({ error: '请求过于频繁，请稍后再试' }, 429, {
+        ...headers,
+        'Retry-After': String(Math.max(1, Math.ceil(result.retryAfterMs / 1000)))
+      });
     }
 
     await next();
+    for (const [name, value] of Object.entries(headers)) {
+      c.header(name, value);
+    }
   };
 }
@@ -0,0 +1,192 @@
+/**
+ * 图片保存期限
+ *
+ * 每张图片按所有者当前等级的 imageRetentionDays 过期（-1 = 永久保存）。
+ * 清理按 (created_at, id) 游标分块进行，超出时间预算时把游标写入 KV，下次定时任务继续。
+ */
+
+import type { D1Database, KVNamespace, R2Bucket } from '@cloudflare/workers-types';
+import { notificationDb, userDb } from './db';
+import { deleteImage } from './storage';
+import { TIER_CONFIGS } from './types';
+import type { UserTier } from './types';
+
+// 过期前多少天提醒用户
+export const RETENTION_WARNING_DAYS = 3;
+// 降级后保留原有图片的宽限期（天）
+export const RETENTION_DOWNGRADE_GRACE_DAYS = 14;
+// 没有所有者的图片（管理员生成）的保存天数
+const OWNERLESS_RETENTION_DAYS = 30;
+
+// 单次清理的时间预算与分块大小
+const CLEANUP_TIME_BUDGET_MS = 20 * 1000;
+const CLEANUP_CHUNK_SIZE = 100;
+const CURSOR_KEY = 'retention:cursor';
+
+const DAY = 24 * 60 * 60;
+
+/**
+ * 按等级计算保存秒数的 SQL 表达式（-1 表示永久保存）
+ */
+function retentionSecondsSql(tierColumn: string): string {
+  const cases = (Object.keys(TIER_CONFIGS) as UserTier[])
+    .map(tier => {
+      const days = TIER_CONFIGS[tier].imageRetentionDays;
+      return `WHEN '${tier}' THEN ${days === -1 ? -1 : days * DAY}`;
+    })
+    .join(' ');
+  const fallback = TIER_CONFIGS.free.imageRetentionDays * DAY;
+  return `CASE WHEN ${tierColumn} IS NULL THEN ${OWNERLESS_RETENTION_DAYS * DAY} ELSE CASE ${tierColumn} ${cases} ELSE ${fallback} END END`;
+}
+
+interface RetentionCursor {
+  createdAt: number;
+  id: string;
+}
+
+/**
+ * 删除超过保存期限的图片（R2 原图 + 衍生图 + 数据库记录）
+ * @returns 本次删除数量，以及是否还有未处理完的数据
+ */
+export async function enforceImageRetention(
+  r2: R2Bucket,
+  db: D1Database,
+  kv: KVNamespace
+): Promise<{ deleted: number; done: boolean }> {
+  const startedAt = Date.now();
+  const now = Math.floor(startedAt / 1000);
+  const retention = retentionSecondsSql('u.tier');
+
+  let cursor = await kv.get<RetentionCursor>(CURSOR_KEY, 'json');
+  let deleted = 0;
+
+  while (Date.now() - startedAt < CLEANUP_TIME_BUDGET_MS) {
+    const { results } = await db.prepare(`
+      SELECT gi.id, gi.url, gi.thumbnail_url, gi.medium_url, gi.created_at
+      FROM generated_images gi
+      LEFT JOIN users u ON gi.user_id = u.id
+      WHERE (gi.created_at > ?1 OR (gi.created_at = ?1 AND gi.id > ?2))
+        AND (u.retention_grace_until IS NULL OR u.retention_grace_until < ?3)
+        AND (${retention}) > 0
+        AND gi.created_at < ?3 - (${retention})
+      ORDER BY gi.created_at ASC, gi.id ASC
+      LIMIT ?4
+    `).bind(cursor?.createdAt ?? 0, cursor?.id ?? '', now, CLEANUP_CHUNK_SIZE).all();
+
+    if (results.length === 0) {
+      await kv.delete(CURSOR_KEY);
+      console.log(`[Retention] Finished, deleted ${deleted} expired images`);
+      return { deleted, done: true };
+    }
+
+    for (const img of results) {
+      await deleteImage(r2, img.url as string);
+      if (img.thumbnail_url) await deleteImage(r2, img.thumbnail_url as string);
+      if (img.medium_url) await deleteImage(r2, img.medium_url as string);
+    }
+
+    const ids = results.map((img: any) => img.id as string);
+    const placeholders = ids.map(() => '?').join(',');
+    await db.batch([
+      db.prepare(`DELETE FROM feedback WHERE image_id IN (${placeholders})`).bind(...ids),
+      db.prepare(`DELETE FROM generated_images WHERE id IN (${placeholders})`).bind(...ids)
+    ]);
+    deleted += ids.length;
+
+    const last = results[results.length - 1];
+    cursor = { createdAt: last.created_at as number, id: last.id as string };
+    await kv.put(CURSOR_KEY, JSON.stringify(cursor));
+  }
+
+  console.log(`[Retention] Time budget reached, deleted ${deleted} images, will resume from ${cursor?.createdAt}`);
+  return { deleted, done: false };
+}
+
+/**
+ * 是否有未完成的清理（供每 5 分钟的定时任务续跑）
+ */
+export async function hasPendingRetention(kv: KVNamespace): Promise<boolean> {
+  return (await kv.get(CURSOR_KEY)) !== null;
+}
+
+/**
+ * 提醒即将过期的图片（每张图片只提醒一次）
+ * @returns 收到提醒的用户数
+ */
+export async function sendExpiryWarnings(db: D1Database): Promise<number> {
+  const now = Math.floor(Date.now() / 1000);
+  const warnUntil = now + RETENTION_WARNING_DAYS * DAY;
+  const retention = retentionSecondsSql('u.tier');
+  // 实际删除时间：到期时间与降级宽限期取较晚者
+  const expiresAt = `MAX(gi.created_at + (${retention}), COALESCE(u.retention_grace_until, 0))`;
+
+  // 删除时间落在 (now, now + N 天] 且尚未提醒的图片，按用户汇总
+  const expiringSql = `
+    FROM generated_images gi
+    JOIN users u ON gi.user_id = u.id
+    WHERE gi.expiry_warned_at IS NULL
+      AND (${retention}) > 0
+      AND ${expiresAt} <= ?1
+      AND ${expiresAt} > ?2
+  `;
+
+  const { results } = await db.prepare(`
+    SELECT gi.user_id, COUNT(*) as count, MIN(${expiresAt}) as first_expiry
+    ${expiringSql}
+    GROUP BY gi.user_id
+  `).bind(warnUntil, now).all();
+
+  for (const row of results) {
+    const count = row.count as number;
+    await notificationDb.create(
+      db,
+      row.user_id as number,
+      'image_expiry',
+      '图片即将过期',
+      `您有 ${count} 张图片将在 ${RETENTION_WARNING_DAYS} 天内按会员等级的保存期限自动删除，请及时下载或升级会员。`,
+      { count, firstExpiry: (row.first_expiry as number) * 1000 }
+    );
+  }
+
+  if (results.length > 0) {
+    await db.prepare(`
+      UPDATE generated_images SET expiry_warned_at = ?2
+      WHERE id IN (SELECT gi.id ${expiringSql})
+    `).bind(warnUntil, now).run();
+  }
+
+  return results.length;
+}
+
+/**
+ * 等级变更时处理保存期限：保存期缩短则给予宽限期并通知，升级则清除宽限期
+ */
+export async function applyRetentionTierChange(
+  db: D1Database,
+  userId: number,
+  oldTier: UserTier,
+  newTier: UserTier
+): Promise<void> {
+  const toDays = (tier: UserTier) => {
+    const days = TIER_CONFIGS[tier].imageRetentionDays;
+    return days === -1 ? Infinity : days;
+  };
+
+  if (toDays(newTier) >= toDays(oldTier)) {
+    if (oldTier !== newTier) {
+      await userDb.setRetentionGrace(db, userId, null);
+    }
+    return;
+  }
+
+  const graceUntil = Math.floor(Date.now() / 1000) + RETENTION_DOWNGRADE_GRACE_DAYS * DAY;
+  await userDb.setRetentionGrace(db, userId, graceUntil);
+  await notificationDb.create(
+    db,
+    userId,
+    'retention_downgrade',
+    '图片保存期限变更',
+    `会员等级已变更，图片保存期限缩短为 ${TIER_CONFIGS[newTier].imageRetentionDays} 天。超出期限的图片将在 ${RETENTION_DOWNGRADE_GRACE_DAYS} 天后删除，请及时下载。`,
+    { oldTier, newTier, graceUntil: graceUntil * 1000 }
+  );
+}
@@ -130,7 +130,7 @@ export const tasks = sqliteTable('tasks', {
     id: text('id').primaryKey(),
     userId: integer('user_id').notNull().references(() => users.id),
     type: text('type').notNull(), // 'generate' | 'batch' | 'product_shot'
-    status: text('status').default('pending'), // 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+    status: text('status').default('pending'), // 'pending' | 'paused' | 'processing' | 'completed' | 'failed' | 'cancelled'
     inputData: text('input_data').notNull(), // JSON string
     outputData: text('output_data'), // JSON string
     errorMessage: text('error_message'),
@@ -0,0 +1,160 @@
+/**
+ * 私有图片签名 URL
+ *
+ * API 为 /r2/generated/{userId}/... 下的图片签发短期 HMAC 签名链接，
+ * /r2/* 只校验签名与过期时间，不查 session。
+ * 签名中包含图片所有者的 URL 版本号（KV），递增版本号即可让该用户已签发的链接全部失效。
+ */
+
+import type { Env } from './types';
+import { timingSafeEqual } from './auth';
+
+// 默认有效期（秒），可通过 SIGNED_URL_TTL 覆盖
+const DEFAULT_TTL = 60 * 60;
+// 过期时间按该粒度对齐，同一时间段内签发的链接相同，便于浏览器缓存
+const EXPIRY_BUCKET = 5 * 60;
+// 版本号在 KV 边缘缓存的时间（秒）；撤销最多在这段时间后生效
+const VERSION_CACHE_TTL = 60;
+
+const PRIVATE_PREFIX = 'generated/';
+
+/**
+ * 从 R2 key 中解析图片所有者（generated/{userId}/{imageId}.png）
+ */
+export function ownerOfKey(key: string): string | null {
+  if (!key.startsWith(PRIVATE_PREFIX)) return null;
+  const owner = key.slice(PRIVATE_PREFIX.length).split('/')[0];
+  return owner || null;
+}
+
+export function isPrivateImageKey(key: string): boolean {
+  return ownerOfKey(key) !== null;
+}
+
+export interface UrlSigner {
+  /**
+   * 为私有图片路径（/r2/generated/...）追加签名参数，其他路径原样返回
+   */
+  sign(url: string): Promise<string>;
+}
+
+/**
+ * 创建签名器（同一请求内缓存各用户的版本号）
+ */
+export function createUrlSigner(env: Env): UrlSigner {
+  const versions = new Map<string, Promise<number>>();
+  const ttl = parseInt(env.SIGNED_URL_TTL || '', 10) || DEFAULT_TTL;
+  let warned = false;
+
+  return {
+    async sign(url: string): Promise<string> {
+      if (!url.startsWith('/r2/')) return url;
+      const key = url.slice(4).split('?')[0];
+      const owner = ownerOfKey(key);
+      if (!owner) return url;
+
+      // 未配置密钥时返回未签名的路径（私有图片暂时无法访问），不让列表等接口整体失败
+      if (!env.IMAGE_URL_SECRET) {
+        if (!warned) {
+          console.error('[SignedUrl] IMAGE_URL_SECRET is not configured, returning unsigned URLs');
+          warned = true;
+        }
+        return url;
+      }
+
+      if (!versions.has(owner)) {
+        versions.set(owner, getUrlVersion(env, owner));
+      }
+      const version = await versions.get(owner)!;
+
+      const now = Math.floor(Date.now() / 1000);
+      const exp = Math.ceil((now + ttl) / EXPIRY_BUCKET) * EXPIRY_BUCKET;
+      const sig = await hmac(env.IMAGE_URL_SECRET, `${key}:${exp}:${version}`);
+
+      return `/r2/${key}?exp=${exp}&v=${version}&sig=${sig}`;
+    }
+  };
+}
+
+/**
+ * 校验签名链接（调用方需先确认已配置 IMAGE_URL_SECRET）
+ */
+export async function verifySignedUrl(
+  env: Env,
+  key: string,
+  params: { exp?: string; v?: string; sig?: string }
+): Promise<{ valid: true } | { valid: false; reason: 'missing' | 'expired' | 'invalid' | 'revoked' }> {
+  const owner = ownerOfKey(key);
+  if (!owner || !params.exp || !params.v || !params.sig) {
+    return { valid: false, reason: 'missing' };
+  }
+
+  const exp = parseInt(params.exp, 10);
+  if (!Number.isFinite(exp) || exp < Math.floor(Date.now() / 1000)) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  const expected = await hmac(requireSecret(env), `${key}:${params.exp}:${params.v}`);
+  if (!timingSafeEqual(expected, params.sig)) {
+    return { valid: false, reason: 'invalid' };
+  }
+
+  if (parseInt(params.v, 10) !== await getUrlVersion(env, owner)) {
+    return { valid: false, reason: 'revoked' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 撤销用户已签发的全部图片链接
+ * @returns 新的版本号
+ */
+export async function revokeSignedUrls(env: Env, userId: number | string): Promise<number> {
+  const next = (await getUrlVersion(env, String(userId))) + 1;
+  await env.SESSION_KV.put(`url-version:${userId}`, String(next));
+  return next;
+}
+
+/**
+ * 为对象中的图片字段签名（url / imageUrl / thumbnailUrl / mediumUrl）
+ */
+export async function signImageFields<T extends Record<string, any>>(signer: UrlSigner, item: T): Promise<T> {
+  const signed: Record<string, any> = { ...item };
+  for (const field of ['url', 'imageUrl', 'thumbnailUrl', 'mediumUrl']) {
+    if (typeof signed[field] === 'string') {
+      signed[field] = await signer.sign(signed[field]);
+    }
+  }
+  return signed as T;
+}
+
+async function getUrlVersion(env: Env, owner: string): Promise<number> {
+  const value = await env.SESSION_KV.get(`url-version:${owner}`, { cacheTtl: VERSION_CACHE_TTL });
+  return value ? parseInt(value, 10) || 0 : 0;
+}
+
+function requireSecret(env: Env): string {
+  if (!env.IMAGE_URL_SECRET) {
+    throw new Error('IMAGE_URL_SECRET is not configured');
+  }
+  return env.IMAGE_URL_SECRET;
+}
+
+async function hmac(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+
+  // base64url（无填充）
+  return btoa(String.fromCharCode(...signature))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
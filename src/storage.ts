@@ -1,19 +1,29 @@
-import type { R2Bucket, R2ListOptions, R2Object, D1Database } from '@cloudflare/workers-types';
+import type { R2Bucket, R2ListOptions, R2Object, D1Database, ImagesBinding } from '@cloudflare/workers-types';
+
+// 衍生图规格（长边像素 / WebP 质量）
+export const IMAGE_DERIVATIVES = {
+  thumb: { width: 400, quality: 75 },
+  medium: { width: 1200, quality: 82 }
+} as const;
 
 /**
- * 保存图片到 R2
+ * 保存图片到 R2，并生成缩略图 / 中图（WebP）存放在原图旁
  * @param r2 R2 Bucket 绑定
  * @param imageData base64 图片数据或 data URL
  * @param userId 用户 ID
  * @param imageId 图片唯一 ID
- * @returns 图片访问 URL
+ * @param images Images 绑定（未配置时只保存原图）
+ * @param onStored 原图写入 R2 后回调（用于上报进度）
+ * @returns 原图与衍生图访问 URL
  */
 export async function saveImage(
   r2: R2Bucket,
   imageData: string,
   userId: number | string,
-  imageId: string
-): Promise<{ url: string; thumbnailUrl: string | null }> {
+  imageId: string,
+  images?: ImagesBinding,
+  onStored?: () => Promise<void>
+): Promise<{ url: string; thumbnailUrl: string | null; mediumUrl: string | null }> {
   // 从 data URL 中提取 base64 数据
   let base64Data = imageData;
   if (imageData.startsWith('data:')) {
@@ -41,10 +51,51 @@ export async function saveImage(
   const url = `/r2/${key}`;
 
   console.log(`[Storage] Image saved: ${url}`);
+  await onStored?.();
+
+  // 衍生图失败不影响原图保存，列表回退到原图
+  const [thumbnailUrl, mediumUrl] = images
+    ? await Promise.all([
+      saveDerivative(r2, images, bytes, `generated/${userId}/${imageId}_thumb.webp`, IMAGE_DERIVATIVES.thumb),
+      saveDerivative(r2, images, bytes, `generated/${userId}/${imageId}_medium.webp`, IMAGE_DERIVATIVES.medium)
+    ])
+    : [null, null];
+
+  return { url, thumbnailUrl, mediumUrl };
+}
+
+/**
+ * 用 Images 绑定缩放并转码为 WebP，保存到 R2
+ * @returns 衍生图 URL；转码失败时返回 null
+ */
+async function saveDerivative(
+  r2: R2Bucket,
+  images: ImagesBinding,
+  source: Uint8Array,
+  key: string,
+  spec: { width: number; quality: number }
+): Promise<string | null> {
+  try {
+    const stream = new Blob([source]).stream() as unknown as ReadableStream<Uint8Array>;
+    const result = await images
+      .input(stream)
+      .transform({ width: spec.width, height: spec.width, fit: 'scale-down' })
+      .output({ format: 'image/webp', quality: spec.quality });
+
+    const bytes = new Uint8Array(await result.response().arrayBuffer());
+    await r2.put(key, bytes, {
+      httpMetadata: {
+        contentType: 'image/webp',
+        cacheControl: 'public, max-age=31536000, immutable'
+      }
+    });
 
-  // Workers 不支持 sharp，暂不生成缩略图
-  // 可以使用 Cloudflare Image Resizing 来按需生成缩略图
-  return { url, thumbnailUrl: null };
+    console.log(`[Storage] Derivative saved: ${key} (${(bytes.length / 1024).toFixed(1)}KB)`);
+    return `/r2/${key}`;
+  } catch (error) {
+    console.error(`[Storage] Derivative failed: ${key}`, error);
+    return null;
+  }
 }
 
 /**
@@ -169,71 +220,122 @@ export async function saveThumbnail(
 }
 
 /**
- * 从 R2 删除资源
+ * 保存参考图到 R2（按内容 SHA-256 去重）
+ * @param r2 R2 Bucket 绑定
+ * @param bytes 图片数据
+ * @param mimeType 识别出的图片类型
+ * @returns R2 key、MIME 类型与字节数
  */
-export async function deleteAsset(r2: R2Bucket, assetUrl: string): Promise<boolean> {
-  return deleteImage(r2, assetUrl);
+export async function saveInputImage(
+  r2: R2Bucket,
+  bytes: Uint8Array,
+  mimeType: string
+): Promise<{ key: string; mimeType: string; size: number }> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hash = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  const key = `inputs/${hash}`;
+
+  // 相同内容已上传过则跳过写入
+  if (!(await r2.head(key))) {
+    await r2.put(key, bytes, {
+      httpMetadata: { contentType: mimeType }
+    });
+    console.log(`[Storage] Input saved: ${key} (${(bytes.length / 1024).toFixed(1)}KB)`);
+  }
+
+  return { key, mimeType, size: bytes.length };
 }
 
 /**
- * 从 R2 获取图片
- * @param r2 R2 Bucket 绑定
- * @param key 图片 key
+ * 从 R2 读取参考图
+ * @returns 纯 base64 数据（不含 data URL 前缀）与 MIME 类型；不存在时返回 null
  */
-export async function getImage(r2: R2Bucket, key: string): Promise<R2ObjectBody | null> {
-  return await r2.get(key);
+export async function loadInputImage(
+  r2: R2Bucket,
+  key: string
+): Promise<{ data: string; mimeType: string } | null> {
+  const object = await r2.get(key);
+  if (!object) return null;
+
+  const bytes = new Uint8Array(await object.arrayBuffer());
+  let binaryString = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binaryString += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+
+  return {
+    data: btoa(binaryString),
+    mimeType: object.httpMetadata?.contentType || 'image/jpeg'
+  };
 }
 
 /**
- * 清理过期图片
+ * 清理未被任何任务或上传记录引用的参考图
  * @param r2 R2 Bucket 绑定
  * @param db D1 数据库
- * @param daysToKeep 保留天数
+ * @param graceHours 最近一次被引用后的保留时间，避免删除刚上传、任务尚未创建的图片
  */
-export async function cleanupOldImages(
+export async function cleanupUnreferencedInputs(
   r2: R2Bucket,
   db: D1Database,
-  daysToKeep: number = 30
+  graceHours: number = 24
 ): Promise<number> {
-  const cutoffTime = Math.floor(Date.now() / 1000) - (daysToKeep * 24 * 60 * 60);
-
-  console.log(`[Cleanup] Starting cleanup of images older than ${daysToKeep} days...`);
+  const cutoffTime = Math.floor(Date.now() / 1000) - (graceHours * 60 * 60);
+  const batchSize = 500;
+  let deletedCount = 0;
 
   try {
-    // 获取过期图片列表
-    const { results: oldImages } = await db.prepare(`
-      SELECT id, url, thumbnail_url FROM generated_images WHERE created_at < ?
-    `).bind(cutoffTime).all();
-
-    let deletedCount = 0;
-
-    // 删除 R2 文件（原图 + 缩略图）
-    for (const img of oldImages) {
-      if (await deleteImage(r2, img.url as string)) {
-        deletedCount++;
-      }
-      if (img.thumbnail_url) {
-        await deleteImage(r2, img.thumbnail_url as string);
-      }
+    while (true) {
+      const { results } = await db.prepare(`
+        SELECT key FROM input_images i
+        WHERE last_used_at < ?
+          AND NOT EXISTS (SELECT 1 FROM tasks t WHERE t.input_image_key = i.key)
+          AND NOT EXISTS (SELECT 1 FROM uploads u WHERE u.input_key = i.key)
+        LIMIT ?
+      `).bind(cutoffTime, batchSize).all();
+
+      if (results.length === 0) break;
+
+      const keys = results.map((r: any) => r.key as string);
+      await r2.delete(keys);
+
+      // 删除期间被重新引用的记录（last_used_at 已刷新）会保留，下次上传时重新写入 R2
+      const placeholders = keys.map(() => '?').join(',');
+      await db.prepare(`
+        DELETE FROM input_images WHERE key IN (${placeholders}) AND last_used_at < ?
+      `).bind(...keys, cutoffTime).run();
+
+      deletedCount += keys.length;
+      if (results.length < batchSize) break;
     }
 
-    // 删除数据库记录
     if (deletedCount > 0) {
-      await db.prepare('DELETE FROM generated_images WHERE created_at < ?').bind(cutoffTime).run();
-      console.log(`[Cleanup] Deleted ${deletedCount} expired images`);
-    } else {
-      console.log('[Cleanup] No expired images to clean up');
+      console.log(`[Cleanup] Deleted ${deletedCount} unreferenced input images`);
     }
-
-    return deletedCount;
-    // ... (cleanupOldImages implementation)
     return deletedCount;
   } catch (error) {
-    console.error('[Cleanup] Failed:', error);
-    return 0;
+    console.error('[Cleanup] Input cleanup failed:', error);
+    return deletedCount;
   }
 }
 
+/**
+ * 从 R2 删除资源
+ */
+export async function deleteAsset(r2: R2Bucket, assetUrl: string): Promise<boolean> {
+  return deleteImage(r2, assetUrl);
+}
+
+/**
+ * 从 R2 获取图片
+ * @param r2 R2 Bucket 绑定
+ * @param key 图片 key
+ */
+export async function getImage(r2: R2Bucket, key: string): Promise<R2ObjectBody | null> {
+  return await r2.get(key);
+}
+
 /**
  * 清理孤儿资源 (assets/ 下的文件，但不在 templates 表中)
  * @param r2 R2 Bucket 绑定
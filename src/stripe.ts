@@ -4,7 +4,8 @@
  */
 
 import type { D1Database } from '@cloudflare/workers-types';
-import { userDb } from './db';
+import { userDb, creditDb } from './db';
+import { applyRetentionTierChange } from './retention';
 import type { UserTier } from './types';
 
 // Stripe API 基础配置
@@ -232,7 +233,14 @@ export async function handleWebhookEvent(
 
         // 只有 active 或 trialing 状态才激活会员
         if (status === 'active' || status === 'trialing') {
+          const user = await userDb.findByStripeCustomerId(db, customerId);
           await userDb.updateSubscription(db, customerId, subscription.id, status, tier, endsAt);
+          // 升级当天补发新等级的额度差；保存期限缩短时给予宽限期
+          if (user) {
+            const oldTier = (user.tier as UserTier) || 'free';
+            await creditDb.grantTierChange(db, user.id as number, oldTier, tier);
+            await applyRetentionTierChange(db, user.id as number, oldTier, tier);
+          }
         }
         break;
       }
@@ -241,7 +249,11 @@ export async function handleWebhookEvent(
         // 订阅取消
         const subscription = event.data.object;
         const customerId = subscription.customer;
+        const user = await userDb.findByStripeCustomerId(db, customerId);
         await userDb.cancelSubscription(db, customerId);
+        if (user) {
+          await applyRetentionTierChange(db, user.id as number, (user.tier as UserTier) || 'free', 'free');
+        }
         break;
       }
 
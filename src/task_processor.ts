@@ -1,8 +1,21 @@
-import { D1Database, R2Bucket } from '@cloudflare/workers-types';
-import { taskDb, imageDb, promptHistoryDb } from './db';
-import { generateEyewearImage, generateFromTemplate, generateProductShot } from './gemini';
-import { saveImage } from './storage';
-import { Env, ModelConfig } from './types';
+import { taskDb, taskEventDb } from './db';
+import { getImageProvider } from './providers';
+import type { ImageProvider, ReferenceImage } from './providers';
+import { saveGenerationResult } from './generation';
+import { generateWithFidelityCheck } from './fidelity';
+import { GenerationError, QuotaExceededError, errorClass, isRetryableError } from './errors';
+import { loadInputImage } from './storage';
+import { sniffBase64MimeType } from './uploads';
+import { createUrlSigner, signImageFields } from './signedUrls';
+import { publishTaskEvent } from './events';
+import { STAGE_PROGRESS } from './progress';
+import type { StageReporter } from './progress';
+import type { BatchProgress, Task } from './types';
+import { Env } from './types';
+import { imageCreditCost } from './credits';
+
+// 单个任务最多尝试次数（仅可重试的上游错误会重试）
+const MAX_TASK_ATTEMPTS = 3;
 
 // 并发控制：限制同时执行的任务数
 async function processWithConcurrencyLimit<T>(
@@ -30,28 +43,47 @@ async function processWithConcurrencyLimit<T>(
     return results;
 }
 
-export async function processTask(env: Env, taskId: string): Promise<boolean> {
+// 读取任务参考图：新任务按 key 从 R2 读取，旧任务的 input_data 中仍直接携带 imageBase64
+async function loadTaskInputImage(env: Env, input: Record<string, unknown>): Promise<ReferenceImage> {
+    if (input.inputImageKey) {
+        const image = await loadInputImage(env.R2, input.inputImageKey as string);
+        if (!image) {
+            throw new Error('参考图不存在或已过期，请重新上传');
+        }
+        return image;
+    }
+    const data = input.imageBase64 as string;
+    return { mimeType: sniffBase64MimeType(data), data };
+}
+
+/**
+ * 处理单个任务
+ * @param options.retry 可重试错误是否重新排队（同步等待结果的接口传 false，直接失败）
+ * @param options.onError 处理失败时收到原始错误（同步接口据此返回结构化的错误响应）
+ * @param options.claimed 调用方已通过 claimNext 认领任务
+ */
+export async function processTask(
+    env: Env,
+    taskId: string,
+    options: { retry?: boolean; onError?: (error: unknown) => void; claimed?: boolean } = {}
+): Promise<boolean> {
     const task = await taskDb.getById(env.DB, taskId);
     if (!task) return false;
 
-    if (task.status !== 'pending' && task.status !== 'processing') {
-        return false;
-    }
-
-    // Ensure status is processing
-    if (task.status === 'pending') {
-        await taskDb.startProcessing(env.DB, taskId);
+    // 只处理本次调用认领到的任务（pending -> processing），避免队列与批次并发处理同一任务
+    if (options.claimed) {
+        if (task.status !== 'processing') return false;
+    } else {
+        if (task.status !== 'pending' || !await taskDb.startProcessing(env.DB, taskId)) {
+            return false;
+        }
+        await publishTaskEvent(env, task, 'started', { attempt: (task.attempts || 0) + 1 });
     }
 
     try {
         const input = task.inputData;
         const userId = task.userId;
-        const imageBase64 = input.imageBase64 as string;
-
-        let resultImageBase64: string;
-        let imageType = 'generate';
-        let saveConfig: any = {};
-        let savePrompt: string | null = null;
+        const provider = withUpstreamAudit(env, taskId, getImageProvider(env));
 
         // Batch Task Processing
         if (task.type === 'batch') {
@@ -63,7 +95,13 @@ export async function processTask(env: Env, taskId: string): Promise<boolean> {
             const concurrency = Math.min(5, Math.max(1, (input.concurrency as number) || 3));
             const batchId = crypto.randomUUID();
 
-            let createdCount = 0;
+            // 父任务的配额预留拆分给每个子任务（各 1 张图），由子任务各自确认或退还
+            const reservation = await taskDb.getQuotaReservation(env.DB, taskId);
+            const subTaskQuota = reservation?.state === 'reserved' && reservation.date
+                ? { units: imageCreditCost(input.imageQuality as string | undefined), date: reservation.date }
+                : undefined;
+
+            const subTaskInputs: Record<string, unknown>[] = [];
 
             for (const combo of combinations) {
                 let prompt = basePrompt;
@@ -75,18 +113,28 @@ export async function processTask(env: Env, taskId: string): Promise<boolean> {
                     }
                 }
 
-                const subTaskId = crypto.randomUUID();
-                await taskDb.create(env.DB, subTaskId, userId, 'generate', {
-                    imageBase64,
+                // 子任务只复制参考图 key，不复制图片数据
+                subTaskInputs.push({
+                    ...(input.inputImageKey
+                        ? { inputImageKey: input.inputImageKey }
+                        : { imageBase64: input.imageBase64 }),
                     prompt,
                     aspectRatio,
                     templateId,
                     templateName,
                     variableValues,
-                }, batchId);
-                createdCount++;
+                    imageQuality: input.imageQuality,
+                    model: input.model,
+                });
             }
 
+            // 子任务与预留转移在同一事务中完成：创建失败时父任务仍是 reserved，由 failTask 全额退还
+            const subTasks = await taskDb.createBatchMembers(env.DB, taskId, batchId, userId, subTaskInputs, subTaskQuota);
+            for (const subTask of subTasks) {
+                await publishTaskEvent(env, subTask, 'created');
+            }
+            const createdCount = subTasks.length;
+
             const result = {
                 success: true,
                 batchId,
@@ -95,188 +143,213 @@ export async function processTask(env: Env, taskId: string): Promise<boolean> {
             };
             await taskDb.complete(env.DB, taskId, result);
 
-            // Broadcast success
-            await broadcastTaskUpdate(env, taskId, { status: 'completed', output: result });
+            await publishTaskEvent(env, task, 'completed', { output: result });
 
-            // 触发批次任务的并发处理，使用用户设置的并行数
-            await processBatchTasks(env, batchId, concurrency);
+            // 配置了 Queue 时子任务只通过队列派发（由消费者按优先级认领），否则按用户设置的并行数直接处理
+            if (env.GENERATION_QUEUE) {
+                // 父任务已完成，派发失败不再标记失败；子任务仍为 pending，由定时任务补发信号
+                await env.GENERATION_QUEUE.sendBatch(subTasks.map(subTask => ({
+                    body: { taskId: subTask.id, type: subTask.type, timestamp: Date.now() }
+                }))).catch(e => console.error(`[Batch] Failed to enqueue subtasks of ${batchId}:`, e));
+            } else {
+                await processBatchTasks(env, batchId, concurrency);
+            }
             return true;
         }
 
-        // Product Shot Task Processing (单角度 - 改造后)
-        if (task.type === 'product_shot') {
-            const angle = input.angle as string;
-            const config = input.config as {
-                backgroundColor: string;
-                reflectionEnabled: boolean;
-                shadowStyle: string;
-                outputSize: string;
-                aspectRatio: string;
-            };
+        // Single Image Generation (generate / product_shot)
+        const onStage = createStageReporter(env, task);
+        const referenceImage = await loadTaskInputImage(env, input);
+        await onStage('input_loaded');
+        const generated = await generateWithFidelityCheck(
+            env, provider, task, referenceImage, onStage,
+            (data, call) => auditUpstreamCall(env, taskId, data, call)
+        );
+        const saved = await saveGenerationResult(env, userId, task, generated, onStage);
 
-            console.log(`[ProductShot] Generating angle: ${angle}`);
-
-            // 生成单个角度的产品图
-            const resultImageBase64 = await generateProductShot(
-                env.GEMINI_API_KEY,
-                imageBase64,
-                angle,
-                {
-                    backgroundColor: config.backgroundColor,
-                    reflectionEnabled: config.reflectionEnabled,
-                    shadowStyle: config.shadowStyle,
-                    aspectRatio: config.aspectRatio
-                }
-            );
-
-            // 保存图片
-            const imageId = crypto.randomUUID();
-            const { url, thumbnailUrl } = await saveImage(
-                env.R2,
-                resultImageBase64,
-                userId,
-                imageId
-            );
-
-            // 保存到数据库
-            await imageDb.save(env.DB, {
-                id: imageId,
-                url,
-                thumbnailUrl,
-                type: 'product_shot',
-                config: { angle, ...config },
-                prompt: null
-            }, userId);
+        // 图片已保存，确认扣费
+        await taskDb.commitQuota(env.DB, taskId);
 
-            const result = {
-                success: true,
-                angle,
-                imageUrl: url,
-                thumbnailUrl,
-                imageId
-            };
+        const result: Record<string, unknown> = {
+            success: true,
+            imageUrl: saved.imageUrl,
+            thumbnailUrl: saved.thumbnailUrl,
+            mediumUrl: saved.mediumUrl,
+            imageId: saved.imageId
+        };
+        if (task.type === 'product_shot') {
+            result.angle = input.angle;
+            console.log(`[ProductShot] Completed angle: ${input.angle}`);
+        }
 
-            // 完成任务
-            await taskDb.complete(env.DB, taskId, result);
+        // Complete Task
+        // 任务已因超时被重置为待处理时不记录结果，由重新执行的那一次完成
+        if (!await taskDb.complete(env.DB, taskId, result)) {
+            console.warn(`[Task] ${taskId} is no longer processing, result not recorded`);
+            return false;
+        }
 
-            // Broadcast success
-            await broadcastTaskUpdate(env, taskId, { status: 'completed', output: result });
+        // 推送签名后的图片链接，数据库中保留原始路径
+        const signedResult = await signImageFields(createUrlSigner(env), result);
+        await publishTaskEvent(env, task, 'completed', {
+            output: signedResult,
+            ...await batchProgressData(env, task)
+        });
 
-            console.log(`[ProductShot] Completed angle: ${angle}`);
-            return true;
-        }
+        return true;
 
-        // Single Image Generation (generate)
-        // 1. Model Config based generation (Eyewear)
-        if (input.modelConfig) {
-            const modelConfig = input.modelConfig as ModelConfig;
-            const size = (input.imageQuality as string) || '1K';
-            const gender = (input.gender as string) || 'female';
-
-            resultImageBase64 = await generateEyewearImage(
-                env.GEMINI_API_KEY,
-                imageBase64,
-                size,
-                modelConfig,
-                gender
-            );
-
-            imageType = 'eyewear';
-            saveConfig = modelConfig;
-        }
-        // 2. Prompt based generation (Template or Custom)
-        else if (input.prompt) {
-            const prompt = input.prompt as string;
-            const aspectRatio = (input.aspectRatio as string) || '3:4';
-
-            resultImageBase64 = await generateFromTemplate(
-                env.GEMINI_API_KEY,
-                imageBase64,
-                prompt,
-                aspectRatio
-            );
-
-            imageType = 'template';
-            saveConfig = {
-                templateId: input.templateId,
-                templateName: input.templateName,
-                variableValues: input.variableValues,
-                customPrompt: !input.templateId
-            };
-            savePrompt = prompt;
+    } catch (error: any) {
+        console.error(`Task ${taskId} failed:`, error);
+        options.onError?.(error);
+        const attempts = await taskDb.recordAttemptFailure(env.DB, taskId, error.message || String(error));
 
-            // Save prompt history if not custom
-            if (input.templateId && input.templateId !== 'custom') {
-                await promptHistoryDb.save(
-                    env.DB,
-                    userId,
-                    prompt,
-                    input.templateId as string,
-                    (input.variableValues as Record<string, unknown>) || {},
-                    true
-                );
-            }
-        } else {
-            throw new Error('Invalid task input: missing prompt or modelConfig');
+        // 临时性上游错误：未到最后一次尝试则退避后重新排队，不标记失败
+        if ((options.retry ?? true) && isRetryableError(error) && attempts < MAX_TASK_ATTEMPTS) {
+            await scheduleRetry(env, task, attempts, error);
+            return false;
         }
 
-        // Save Logic (Common)
-        const imageId = crypto.randomUUID();
-        const { url, thumbnailUrl } = await saveImage(
-            env.R2,
-            resultImageBase64,
-            userId,
-            imageId
-        );
-
-        // Save to Image DB
-        await imageDb.save(env.DB, {
-            id: imageId,
-            url,
-            thumbnailUrl,
-            type: imageType,
-            config: saveConfig,
-            prompt: savePrompt
-        }, userId);
-
-        const result = {
-            success: true,
-            imageUrl: url,
-            thumbnailUrl,
-            imageId
-        };
+        // 结构化错误使用面向用户的提示，其余保留原始信息
+        const message = error instanceof GenerationError
+            ? error.userMessage
+            : (error.message || 'Processing failed');
+        await failTask(env, taskId, message, { attempt: attempts, errorClass: errorClass(error) });
+        return false;
+    }
+}
 
-        // Complete Task
-        await taskDb.complete(env.DB, taskId, result);
+/**
+ * 重新排队：退避时间优先采用上游给出的 retryAfter，否则指数退避（10s, 20s, ...）
+ */
+async function scheduleRetry(env: Env, task: Task, attempts: number, error: GenerationError): Promise<void> {
+    const delaySeconds = error instanceof QuotaExceededError && error.retryAfterMs
+        ? Math.ceil(error.retryAfterMs / 1000)
+        : 10 * Math.pow(2, attempts - 1);
+
+    if (!await taskDb.retryLater(env.DB, task.id, delaySeconds)) return;
+    console.log(`[Retry] Task ${task.id} attempt ${attempts}/${MAX_TASK_ATTEMPTS} failed, retrying in ${delaySeconds}s`);
+
+    await publishTaskEvent(env, task, 'retrying', {
+        attempt: attempts,
+        maxAttempts: MAX_TASK_ATTEMPTS,
+        retryInSeconds: delaySeconds,
+        error: error.userMessage,
+        errorClass: error.code
+    });
 
-        // Broadcast success
-        await broadcastTaskUpdate(env, taskId, { status: 'completed', output: result });
+    // 补发队列信号；未配置 Queue 时由定时任务轮询处理
+    if (env.GENERATION_QUEUE) {
+        await env.GENERATION_QUEUE.send(
+            { taskId: task.id, type: task.type, timestamp: Date.now() },
+            { delaySeconds }
+        );
+    }
+}
 
-        return true;
+/**
+ * 认领并处理优先级最高的待处理任务
+ * 队列消息只作为“有任务可处理”的信号，实际处理顺序由 tasks.priority（含排队时长加成）决定
+ * @returns 处理的任务 ID；没有待处理任务时返回 null
+ */
+export async function processNextTask(env: Env): Promise<string | null> {
+    const taskId = await taskDb.claimNext(env.DB);
+    if (!taskId) return null;
 
+    try {
+        const task = await taskDb.getById(env.DB, taskId);
+        if (task) {
+            await publishTaskEvent(env, task, 'started', { attempt: (task.attempts || 0) + 1 });
+        }
+        await processTask(env, taskId, { claimed: true });
     } catch (error: any) {
         console.error(`Task ${taskId} failed:`, error);
-        await taskDb.fail(env.DB, taskId, error.message || 'Processing failed');
-        // Broadcast failure
-        await broadcastTaskUpdate(env, taskId, { status: 'failed', error: error.message || 'Processing failed' });
-        return false;
+        await failTask(env, taskId, error.message || '处理失败', { errorClass: errorClass(error) });
     }
+    return taskId;
 }
 
-// Helper to broadcast task updates
-async function broadcastTaskUpdate(env: Env, taskId: string, status: any) {
+/**
+ * 将任务标记为失败（最终状态）、退还预留配额并推送事件
+ */
+export async function failTask(
+    env: Env,
+    taskId: string,
+    message: string,
+    details: { attempt?: number; errorClass?: string } = {}
+): Promise<void> {
+    await taskDb.fail(env.DB, taskId, message);
+    if (await taskDb.releaseQuota(env.DB, taskId)) {
+        console.log(`[Quota] Released reservation for failed task ${taskId}`);
+    }
+    const task = await taskDb.getById(env.DB, taskId);
+    if (task) {
+        await publishTaskEvent(env, task, 'failed', {
+            error: message,
+            ...details,
+            ...await batchProgressData(env, task)
+        });
+    }
+}
+
+/**
+ * 记录一次上游调用的耗时与错误类型到任务审计时间线
+ */
+async function auditUpstreamCall<T>(
+    env: Env,
+    taskId: string,
+    data: Record<string, unknown>,
+    call: () => Promise<T>
+): Promise<T> {
+    const startedAt = Date.now();
+    const record = (errorClassName: string | null, message: string | null) =>
+        taskEventDb.record(env.DB, taskId, 'upstream_call', {
+            latencyMs: Date.now() - startedAt,
+            errorClass: errorClassName,
+            message,
+            data
+        }).catch(e => console.error(`[Audit] Failed to record upstream call for ${taskId}:`, e));
+
     try {
-        const id = env.TASK_MONITOR.idFromName(taskId);
-        const stub = env.TASK_MONITOR.get(id);
-        await stub.fetch(new Request("http://do/broadcast", {
-            method: "POST",
-            body: JSON.stringify(status)
-        }));
-    } catch (e) {
-        console.error(`Failed to broadcast task update for ${taskId}:`, e);
+        const result = await call();
+        await record(null, null);
+        return result;
+    } catch (error: any) {
+        await record(errorClass(error), error?.message || String(error));
+        throw error;
     }
 }
 
+// 生图 Provider 的每次调用都记入审计时间线
+function withUpstreamAudit(env: Env, taskId: string, provider: ImageProvider): ImageProvider {
+    return {
+        name: provider.name,
+        generateImage: request =>
+            auditUpstreamCall(env, taskId, { provider: provider.name }, () => provider.generateImage(request))
+    };
+}
+
+/**
+ * 阶段进度：写入数据库并推送 progress 事件
+ */
+function createStageReporter(env: Env, task: Task): StageReporter {
+    return async (stage) => {
+        const progress = STAGE_PROGRESS[stage];
+        if (await taskDb.updateProgress(env.DB, task.id, progress, stage)) {
+            await publishTaskEvent(env, task, 'progress', {
+                progress,
+                stage,
+                ...await batchProgressData(env, task)
+            });
+        }
+    };
+}
+
+// 批次子任务的事件附带批次整体进度
+async function batchProgressData(env: Env, task: Task): Promise<{ batchProgress?: BatchProgress }> {
+    if (!task.batchId) return {};
+    return { batchProgress: await taskDb.getBatchProgress(env.DB, task.batchId) };
+}
+
 // 处理批次任务（按 batchId 并发）
 export async function processBatchTasks(
     env: Env,
@@ -2,32 +2,78 @@
 export interface Env {
   DB: D1Database;
   R2: R2Bucket;
+  // Images 绑定：保存时生成缩略图 / 中图（未配置时只保存原图）
+  IMAGES?: ImagesBinding;
   SESSION_KV: KVNamespace;
   GENERATION_QUEUE: Queue<QueueMessage>;
   ADMIN_USERNAME: string;
   ADMIN_PASSWORD: string;
   GEMINI_API_KEY: string;
+  // 额外的 Gemini API key（secret，逗号分隔），与 GEMINI_API_KEY 一起组成 key 池
+  GEMINI_API_KEYS?: string;
+  // key 选择策略：'least_used'（默认）| 'round_robin'
+  GEMINI_KEY_STRATEGY?: string;
+  // Gemini API key 池（轮换、冷却与用量统计；未绑定时只使用 GEMINI_API_KEY）
+  API_KEY_POOL?: DurableObjectNamespace;
+  // 图片生成后端：'gemini'（默认）| 'stub'（本地占位图，无需网络）
+  IMAGE_PROVIDER?: string;
   // Stripe
   STRIPE_SECRET_KEY: string;
   STRIPE_WEBHOOK_SECRET: string;
   TASK_MONITOR: DurableObjectNamespace;
+  // Gemini 上游熔断器
+  CIRCUIT_BREAKER: DurableObjectNamespace;
+  // Gemini 全局请求预算（令牌桶，所有调用共享）与每分钟请求数（默认 60）
+  UPSTREAM_GOVERNOR?: DurableObjectNamespace;
+  GEMINI_RPM?: string;
+  // 生成后的还原度质检：'on' 开启（默认关闭）、合格分数线（0-100，默认 70）、最多生成次数（含首次，默认 3）
+  FIDELITY_QA?: string;
+  FIDELITY_THRESHOLD?: string;
+  FIDELITY_MAX_ATTEMPTS?: string;
+  // 用户级任务事件通道（单连接推送用户全部任务）
+  USER_CHANNEL: DurableObjectNamespace;
+  // 接口限流计数（按用户 / IP 跨实例共享；未绑定时回退到 isolate 内计数）
+  RATE_LIMITER?: DurableObjectNamespace;
+  // 私有图片签名链接：HMAC 密钥（secret）与有效期（秒，默认 3600）
+  IMAGE_URL_SECRET: string;
+  SIGNED_URL_TTL?: string;
 }
 
 
 // 用户等级类型
 export type UserTier = 'free' | 'pro' | 'ultra';
 
+// 输出尺寸（由小到大）
+export const IMAGE_SIZES = ['1K', '2K', '4K'] as const;
+export type ImageSize = typeof IMAGE_SIZES[number];
+
+// 各生图模型能输出的尺寸（上游只对支持的模型接受 imageConfig.imageSize，其余固定输出 1K）
+export const MODEL_IMAGE_SIZES: Record<string, readonly ImageSize[]> = {
+  'gemini-3-pro-image-preview': IMAGE_SIZES,
+  'gemini-2.5-flash-image': ['1K']
+};
+
 // 等级配置
 export interface TierConfig {
   dailyLimit: number;        // 每日生成次数限制 (-1 = 无限制)
   batchLimit: number;        // 单次批量生成数量
   priority: number;          // 队列优先级
+  rateLimitMultiplier: number; // 接口限流倍数（相对各路由的基础限额）
   imageRetentionDays: number; // 图片保存天数 (-1 = 永久)
+  upload: {
+    maxBytes: number;        // 参考图最大字节数
+    maxDimension: number;    // 参考图最长边（像素）
+  };
   features: {
     productShot: boolean;    // 产品摄影模式
     masterMode: boolean;     // 大师级配置
     premiumTemplates: boolean; // 高级模板
   };
+  generation: {
+    models: string[];        // 可用的生图模型（第一个为默认）
+    maxImageSize: ImageSize; // 最大输出尺寸
+    defaultQuality: ImageSize; // 未指定尺寸时的默认输出尺寸
+  };
 }
 
 // 等级配置表
@@ -36,33 +82,63 @@ export const TIER_CONFIGS: Record<UserTier, TierConfig> = {
     dailyLimit: 5,
     batchLimit: 2,
     priority: 0,
+    rateLimitMultiplier: 1,
     imageRetentionDays: 7,
+    upload: {
+      maxBytes: 5 * 1024 * 1024,
+      maxDimension: 2048
+    },
     features: {
       productShot: false,
       masterMode: false,
       premiumTemplates: false
+    },
+    generation: {
+      models: ['gemini-3-pro-image-preview'],
+      maxImageSize: '1K',
+      defaultQuality: '1K'
     }
   },
   pro: {
     dailyLimit: 50,
     batchLimit: 5,
     priority: 5,
+    rateLimitMultiplier: 2,
     imageRetentionDays: 30,
+    upload: {
+      maxBytes: 10 * 1024 * 1024,
+      maxDimension: 4096
+    },
     features: {
       productShot: true,
       masterMode: false,
       premiumTemplates: true
+    },
+    generation: {
+      models: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'],
+      maxImageSize: '2K',
+      defaultQuality: '1K'
     }
   },
   ultra: {
     dailyLimit: -1, // 无限制
     batchLimit: 10,
     priority: 10,
+    rateLimitMultiplier: 5,
     imageRetentionDays: -1, // 永久
+    upload: {
+      maxBytes: 20 * 1024 * 1024,
+      maxDimension: 8192
+    },
     features: {
       productShot: true,
       masterMode: true,
       premiumTemplates: true
+    },
+    generation: {
+      models: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'],
+      maxImageSize: '4K',
+      defaultQuality: '2K'
     }
   }
 };
@@ -109,7 +185,9 @@ export interface UserQuota {
   dailyUsed: number;
   dailyLimit: number;
   remaining: number;
+  balance: number;           // 当日积分余额 (-1 = 无限制)
   features: TierConfig['features'];
+  generation: TierConfig['generation'];
 }
 
 // 模板类型
@@ -148,6 +226,7 @@ export interface GeneratedImage {
   id: string;
   url: string;
   thumbnailUrl: string | null;
+  mediumUrl?: string | null;
   type: string;
   config: Record<string, unknown> | null;
   prompt: string | null;
@@ -162,8 +241,11 @@ export interface Task {
   id: string;
   userId: number;
   type: 'generate' | 'batch' | 'product_shot';
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'paused' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number;
+  stage?: string | null;     // 当前生成阶段（见 progress.ts）
+  attempts?: number;         // 已失败的尝试次数
+  retryOf?: string | null;   // 手动重试时对应的原任务
   inputData: Record<string, unknown>;
   outputData: Record<string, unknown> | null;
   errorMessage: string | null;
@@ -180,6 +262,9 @@ export interface BatchProgress {
   failed: number;
   processing: number;
   pending: number;
+  paused: number;            // 批次暂停中的任务
+  cancelled: number;
+  percent: number;           // 整体进度 0-100（已结束的任务按 100 计）
 }
 
 // 资源类型
@@ -0,0 +1,177 @@
+/**
+ * 参考图上传：格式识别与尺寸限制
+ *
+ * 只根据文件头（magic bytes）判断格式，不信任客户端声明的 Content-Type。
+ */
+
+import { TIER_CONFIGS } from './types';
+import type { UserTier } from './types';
+
+export type UploadMimeType = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ImageInfo {
+  mimeType: UploadMimeType;
+  width: number;
+  height: number;
+}
+
+/**
+ * 识别图片格式并解析宽高
+ * @returns 不是 PNG / JPEG / WebP 或文件头损坏时返回 null
+ */
+export function sniffImage(bytes: Uint8Array): ImageInfo | null {
+  const type = sniffMimeType(bytes);
+  if (!type) return null;
+
+  const size = type === 'image/png' ? pngSize(bytes)
+    : type === 'image/jpeg' ? jpegSize(bytes)
+    : webpSize(bytes);
+  if (!size) return null;
+
+  return { mimeType: type, ...size };
+}
+
+/**
+ * 只识别格式（不解析尺寸）
+ */
+export function sniffMimeType(bytes: Uint8Array): UploadMimeType | null {
+  if (bytes.length >= 8 &&
+    bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47 &&
+    bytes[4] === 0x0d && bytes[5] === 0x0a && bytes[6] === 0x1a && bytes[7] === 0x0a) {
+    return 'image/png';
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+/**
+ * 识别 base64 图片的格式，用于旧的 imageBase64 参数
+ */
+export function sniffBase64MimeType(base64: string, fallback: string = 'image/jpeg'): string {
+  // 16 个 base64 字符可解码出 12 字节，足够覆盖三种文件头
+  try {
+    return sniffMimeType(base64ToBytes(base64.slice(0, 16))) || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * base64 或 data URL 转字节
+ */
+export function base64ToBytes(imageData: string): Uint8Array {
+  const base64Data = imageData.startsWith('data:') ? imageData.split(',')[1] : imageData;
+  const binaryString = atob(base64Data);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 按用户等级校验上传图片
+ * @returns 校验通过返回图片信息，否则返回错误提示与 HTTP 状态码
+ */
+export function validateUpload(
+  bytes: Uint8Array,
+  tier: UserTier
+): { info: ImageInfo } | { error: string; status: 400 | 413 | 415 } {
+  const limits = TIER_CONFIGS[tier].upload;
+
+  if (bytes.length === 0) {
+    return { error: '上传文件为空', status: 400 };
+  }
+  if (bytes.length > limits.maxBytes) {
+    return {
+      error: `图片大小超过限制（最大 ${Math.floor(limits.maxBytes / 1024 / 1024)}MB）`,
+      status: 413
+    };
+  }
+
+  const info = sniffImage(bytes);
+  if (!info) {
+    return { error: '仅支持 PNG、JPEG、WebP 格式的图片', status: 415 };
+  }
+  if (info.width > limits.maxDimension || info.height > limits.maxDimension) {
+    return {
+      error: `图片尺寸超过限制（最长边 ${limits.maxDimension}px），当前为 ${info.width}x${info.height}`,
+      status: 400
+    };
+  }
+
+  return { info };
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function pngSize(bytes: Uint8Array): { width: number; height: number } | null {
+  // 签名(8) + IHDR 长度(4) + 类型(4) 之后是宽高（大端）
+  if (bytes.length < 24 || ascii(bytes, 12, 4) !== 'IHDR') return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+function jpegSize(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+
+    // 填充字节
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    // SOF0-SOF15（排除 DHT / JPG / DAC）中包含帧尺寸
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+
+    offset += 2 + view.getUint16(offset + 2);
+  }
+
+  return null;
+}
+
+function webpSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (bytes.length < 30) return null;
+  const chunk = ascii(bytes, 12, 4);
+
+  // 有损
+  if (chunk === 'VP8 ') {
+    return {
+      width: (bytes[26] | (bytes[27] << 8)) & 0x3fff,
+      height: (bytes[28] | (bytes[29] << 8)) & 0x3fff
+    };
+  }
+
+  // 无损：14 位宽 / 14 位高，紧跟签名字节 0x2f
+  if (chunk === 'VP8L') {
+    const b0 = bytes[21], b1 = bytes[22], b2 = bytes[23], b3 = bytes[24];
+    return {
+      width: 1 + (((b1 & 0x3f) << 8) | b0),
+      height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6))
+    };
+  }
+
+  // 扩展格式：24 位（小端）宽高减一
+  if (chunk === 'VP8X') {
+    return {
+      width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+      height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16))
+    };
+  }
+
+  return null;
+}
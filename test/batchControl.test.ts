@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { taskDb, userDb } from '../src/db';
+import { processTask } from '../src/task_processor';
+import type { Task } from '../src/types';
+import { createTestContext, createUser, PNG_BASE64, request } from './helpers/env';
+import type { TestContext } from './helpers/env';
+
+describe('batch control', () => {
+  let t: TestContext;
+  let user: { userId: number; token: string };
+
+  beforeAll(async () => {
+    t = await createTestContext();
+  });
+
+  afterAll(async () => {
+    await t.dispose();
+  });
+
+  beforeEach(async () => {
+    user = await createUser(t.env, 'pro');
+  });
+
+  // 创建批次并拆分出子任务
+  async function createBatch(count: number): Promise<{ batchId: string; members: Task[] }> {
+    const response = await request(t.env, 'POST', '/api/tasks/batch', {
+      token: user.token,
+      body: {
+        imageBase64: PNG_BASE64,
+        basePrompt: 'portrait {n}',
+        combinations: Array.from({ length: count }, (_, i) => ({ n: String(i) }))
+      }
+    });
+    const { taskId } = await response.json() as { taskId: string };
+    await processTask(t.env, taskId);
+
+    const batchId = (await taskDb.getById(t.env.DB, taskId))!.outputData!.batchId as string;
+    return { batchId, members: await taskDb.getByBatchId(t.env.DB, batchId) };
+  }
+
+  const control = (batchId: string, action: 'pause' | 'resume' | 'cancel') =>
+    request(t.env, 'POST', `/api/tasks/batch/${batchId}/${action}`, { token: user.token });
+
+  async function statuses(batchId: string): Promise<string[]> {
+    return (await taskDb.getByBatchId(t.env.DB, batchId)).map(task => task.status).sort();
+  }
+
+  it('pauses members that have not started and leaves processing ones alone', async () => {
+    const { batchId, members } = await createBatch(3);
+    await taskDb.startProcessing(t.env.DB, members[0].id);
+
+    const response = await control(batchId, 'pause');
+    expect(await response.json()).toMatchObject({ success: true, paused: 2 });
+    expect(await statuses(batchId)).toEqual(['paused', 'paused', 'processing']);
+
+    // 暂停的任务不会被认领
+    expect(await processTask(t.env, members[1].id)).toBe(false);
+    expect((await taskDb.getById(t.env.DB, members[1].id))!.status).toBe('paused');
+  });
+
+  it('resumes paused members and signals the queue again', async () => {
+    const { batchId, members } = await createBatch(2);
+    await control(batchId, 'pause');
+    t.queued.length = 0;
+
+    const response = await control(batchId, 'resume');
+    expect(await response.json()).toMatchObject({ success: true, resumed: 2 });
+    expect(await statuses(batchId)).toEqual(['pending', 'pending']);
+    expect(t.queued.map(message => message.taskId).sort()).toEqual(members.map(task => task.id).sort());
+  });
+
+  it('cancels pending and paused members and refunds their reservations', async () => {
+    const { batchId, members } = await createBatch(3);
+    await taskDb.startProcessing(t.env.DB, members[0].id);
+    await control(batchId, 'pause');
+    expect((await userDb.getQuota(t.env.DB, user.userId))!.dailyUsed).toBe(3);
+
+    const response = await control(batchId, 'cancel');
+    expect(await response.json()).toMatchObject({ success: true, cancelled: 2, processing: 1 });
+    expect(await statuses(batchId)).toEqual(['cancelled', 'cancelled', 'processing']);
+    expect((await userDb.getQuota(t.env.DB, user.userId))!.dailyUsed).toBe(1);
+
+    // 已取消的批次不能再恢复
+    expect(await (await control(batchId, 'resume')).json()).toMatchObject({ resumed: 0 });
+  });
+
+  it('cancels a single paused member', async () => {
+    const { batchId, members } = await createBatch(2);
+    await control(batchId, 'pause');
+
+    const response = await request(t.env, 'POST', `/api/tasks/${members[0].id}/cancel`, { token: user.token });
+    expect(response.status).toBe(200);
+    expect((await taskDb.getById(t.env.DB, members[0].id))!.status).toBe('cancelled');
+    expect(await taskDb.getQuotaReservation(t.env.DB, members[0].id)).toMatchObject({ state: 'released' });
+  });
+
+  it('puts stuck members of a paused batch back as paused', async () => {
+    const { batchId, members } = await createBatch(2);
+    await taskDb.startProcessing(t.env.DB, members[0].id);
+    await control(batchId, 'pause');
+
+    // 模拟处理超时
+    await t.env.DB.prepare('UPDATE tasks SET started_at = started_at - 3600 WHERE id = ?').bind(members[0].id).run();
+    expect(await taskDb.resetStuckTasks(t.env.DB)).toBe(1);
+    expect(await statuses(batchId)).toEqual(['paused', 'paused']);
+
+    await control(batchId, 'resume');
+    expect(await statuses(batchId)).toEqual(['pending', 'pending']);
+  });
+
+  it('rejects control of another user\'s batch', async () => {
+    const { batchId } = await createBatch(1);
+    const other = await createUser(t.env);
+    const response = await request(t.env, 'POST', `/api/tasks/batch/${batchId}/pause`, { token: other.token });
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from '../src/do/CircuitBreaker';
+import type { CircuitStatus } from '../src/do/CircuitBreaker';
+import { KeyPoolExhaustedError, ProviderConfigError, UpstreamBudgetError } from '../src/errors';
+import type { CircuitBreakerClient } from '../src/providers/breaker';
+import { createGeminiProvider } from '../src/providers/gemini';
+import type { ApiKeyPoolClient } from '../src/providers/keyPool';
+import type { Env } from '../src/types';
+import { createState } from './shims/cloudflare-workers';
+
+const NOW = Date.UTC(2026, 0, 1);
+const REQUEST = { model: 'gemini-3-pro-image-preview', prompt: 'portrait' };
+
+// 直接调用 Durable Object 的熔断器客户端
+function clientFor(breaker: CircuitBreaker): CircuitBreakerClient {
+  const call = async (path: string, init?: RequestInit) =>
+    (await breaker.fetch(new Request(`http://do${path}`, init))).json();
+  return {
+    acquire: () => call('/acquire', { method: 'POST' }) as Promise<{ allowed: boolean; status: CircuitStatus }>,
+    record: async (success, reason) => { await call('/record', { method: 'POST', body: JSON.stringify({ success, reason }) }); },
+    release: async () => { await call('/release', { method: 'POST' }); },
+    getStatus: () => call('/state') as Promise<CircuitStatus>,
+    reset: () => call('/reset', { method: 'POST' }) as Promise<CircuitStatus>
+  };
+}
+
+describe('CircuitBreaker', () => {
+  let client: CircuitBreakerClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    client = clientFor(new CircuitBreaker(createState(), {} as Env));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function open(): Promise<void> {
+    for (let i = 0; i < 5; i++) {
+      await client.record(false, 'UPSTREAM_UNAVAILABLE');
+    }
+  }
+
+  it('opens after consecutive failures and admits a single probe once the cooldown ends', async () => {
+    await open();
+    expect(await client.acquire()).toMatchObject({ allowed: false, status: { state: 'open', retryAfterMs: 30_000 } });
+
+    vi.setSystemTime(NOW + 30_000);
+    expect(await client.acquire()).toMatchObject({ allowed: true, status: { state: 'half_open' } });
+    expect(await client.acquire()).toMatchObject({ allowed: false, status: { state: 'half_open' } });
+
+    await client.record(true);
+    expect(await client.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('re-opens when the probe fails', async () => {
+    await open();
+    vi.setSystemTime(NOW + 30_000);
+    await client.acquire();
+    await client.record(false, 'UPSTREAM_TIMEOUT');
+    expect(await client.getStatus()).toMatchObject({ state: 'open', lastFailureReason: 'UPSTREAM_TIMEOUT' });
+  });
+
+  it('admits another probe right away after the probe slot is released', async () => {
+    await open();
+    vi.setSystemTime(NOW + 30_000);
+    await client.acquire();
+
+    await client.release();
+    expect(await client.acquire()).toMatchObject({ allowed: true, status: { state: 'half_open' } });
+  });
+
+  it('ignores releases outside of half-open', async () => {
+    await client.release();
+    expect(await client.getStatus()).toMatchObject({ state: 'closed' });
+
+    await open();
+    await client.release();
+    expect(await client.acquire()).toMatchObject({ allowed: false, status: { state: 'open' } });
+  });
+});
+
+describe('Gemini provider breaker gate', () => {
+  let client: CircuitBreakerClient;
+
+  beforeEach(async () => {
+    // 只模拟时钟：本地拦截的请求按 retryAfterMs（0）立即重试
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    client = clientFor(new CircuitBreaker(createState(), {} as Env));
+    for (let i = 0; i < 5; i++) {
+      await client.record(false, 'UPSTREAM_UNAVAILABLE');
+    }
+    vi.setSystemTime(NOW + 30_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('does not take the probe slot when the API key is missing', async () => {
+    const provider = createGeminiProvider('', { breaker: client });
+    await expect(provider.generateImage(REQUEST)).rejects.toBeInstanceOf(ProviderConfigError);
+    expect(await client.getStatus()).toMatchObject({ state: 'open' });
+    expect(await client.acquire()).toMatchObject({ allowed: true, status: { state: 'half_open' } });
+  });
+
+  it('hands the probe slot back when the request budget is exhausted', async () => {
+    const governor = {
+      acquire: async () => { throw new UpstreamBudgetError(60, 0); },
+      getStatus: async () => { throw new Error('unused'); }
+    };
+    const provider = createGeminiProvider('key', { breaker: client, governor });
+
+    await expect(provider.generateImage(REQUEST)).rejects.toBeInstanceOf(UpstreamBudgetError);
+    expect(await client.getStatus()).toMatchObject({ state: 'half_open', consecutiveFailures: 5 });
+    expect(await client.acquire()).toMatchObject({ allowed: true });
+  });
+
+  it('hands the probe slot back when every pooled key is cooling down', async () => {
+    const keyPool = {
+      acquire: async () => ({ id: null, key: '', retryAfterMs: 0 })
+    } as unknown as ApiKeyPoolClient;
+    const provider = createGeminiProvider('', { breaker: client, keyPool });
+
+    await expect(provider.generateImage(REQUEST)).rejects.toBeInstanceOf(KeyPoolExhaustedError);
+    expect(await client.getStatus()).toMatchObject({ state: 'half_open', consecutiveFailures: 5 });
+    expect(await client.acquire()).toMatchObject({ allowed: true });
+  });
+});
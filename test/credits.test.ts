@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { IMAGE_SIZE_CREDITS, batchCreditCost, imageCreditCost } from '../src/credits';
+import { IMAGE_SIZES } from '../src/types';
+
+describe('imageCreditCost', () => {
+  it('weights each output size', () => {
+    expect(imageCreditCost('1K')).toBe(1);
+    expect(imageCreditCost('2K')).toBe(2);
+    expect(imageCreditCost('4K')).toBe(4);
+  });
+
+  it('prices every selectable size', () => {
+    for (const size of IMAGE_SIZES) {
+      expect(IMAGE_SIZE_CREDITS[size]).toBeGreaterThan(0);
+    }
+  });
+
+  it('charges 1K when no size is stored', () => {
+    expect(imageCreditCost()).toBe(1);
+    expect(imageCreditCost(null)).toBe(1);
+    expect(imageCreditCost('')).toBe(1);
+  });
+
+  it('charges 1K for unknown sizes', () => {
+    expect(imageCreditCost('8K')).toBe(1);
+  });
+});
+
+describe('batchCreditCost', () => {
+  it('multiplies the per-image cost by the image count', () => {
+    expect(batchCreditCost(5)).toBe(5);
+    expect(batchCreditCost(3, '2K')).toBe(6);
+    expect(batchCreditCost(4, '4K')).toBe(16);
+  });
+
+  it('is free for an empty batch', () => {
+    expect(batchCreditCost(0, '4K')).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { deadLetterDb, taskDb, userDb } from '../src/db';
+import { failTask } from '../src/task_processor';
+import { createTestContext, createUser, PNG_BASE64, request } from './helpers/env';
+import type { TestContext } from './helpers/env';
+
+describe('dead-letter requeue', () => {
+  let t: TestContext;
+  let admin: { userId: number; token: string };
+  let user: { userId: number; token: string };
+
+  beforeAll(async () => {
+    t = await createTestContext();
+    admin = await createUser(t.env, 'free', 'admin');
+  });
+
+  afterAll(async () => {
+    await t.dispose();
+  });
+
+  beforeEach(async () => {
+    user = await createUser(t.env);
+  });
+
+  const used = async () => (await userDb.getQuota(t.env.DB, user.userId))!.dailyUsed;
+
+  async function submit(): Promise<string> {
+    const response = await request(t.env, 'POST', '/api/tasks/generate', {
+      token: user.token,
+      body: { imageBase64: PNG_BASE64, prompt: 'studio portrait' }
+    });
+    return ((await response.json()) as { taskId: string }).taskId;
+  }
+
+  // 任务最终失败并进入死信队列
+  async function deadLetter(taskId: string): Promise<string> {
+    await failTask(t.env, taskId, 'boom');
+    const messageId = crypto.randomUUID();
+    await deadLetterDb.record(t.env.DB, messageId, taskId, { taskId, type: 'generate', timestamp: Date.now() }, 3);
+    const row = await t.env.DB.prepare('SELECT id FROM dead_letters WHERE message_id = ?').bind(messageId).first();
+    return row!.id as string;
+  }
+
+  const requeue = (id: string) =>
+    request(t.env, 'POST', `/api/admin/dead-letters/${id}/requeue`, { token: admin.token });
+
+  it('reserves the task cost again and refunds it if the task fails again', async () => {
+    const taskId = await submit();
+    const id = await deadLetter(taskId);
+    expect(await used()).toBe(0);
+
+    const response = await requeue(id);
+    expect(response.status).toBe(200);
+    expect((await taskDb.getById(t.env.DB, taskId))!.status).toBe('pending');
+    expect(await taskDb.getQuotaReservation(t.env.DB, taskId)).toMatchObject({ units: 1, state: 'reserved' });
+    expect(await used()).toBe(1);
+    expect(t.queued.some(message => message.taskId === taskId)).toBe(true);
+
+    await failTask(t.env, taskId, 'boom again');
+    expect(await used()).toBe(0);
+  });
+
+  it('refuses to requeue when the user can no longer pay for the task', async () => {
+    const taskId = await submit();
+    const id = await deadLetter(taskId);
+    for (let i = 0; i < 5; i++) {
+      await submit();
+    }
+
+    const response = await requeue(id);
+    expect(response.status).toBe(409);
+    expect((await taskDb.getById(t.env.DB, taskId))!.status).toBe('failed');
+    expect((await deadLetterDb.getById(t.env.DB, id))!.status).toBe('pending');
+    expect(await used()).toBe(5);
+  });
+
+  it('does not charge twice when the dead letter was already handled', async () => {
+    const taskId = await submit();
+    const id = await deadLetter(taskId);
+    await requeue(id);
+
+    const again = await requeue(id);
+    expect(again.status).toBe(409);
+    expect(await used()).toBe(1);
+  });
+});
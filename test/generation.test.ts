@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { resolveGenerationOptions } from '../src/generation';
+
+const PRO_MODEL = 'gemini-3-pro-image-preview';
+const FLASH_MODEL = 'gemini-2.5-flash-image';
+
+describe('resolveGenerationOptions', () => {
+  it('uses the tier default model and size when nothing is requested', () => {
+    expect(resolveGenerationOptions('free', {})).toEqual({ model: PRO_MODEL, imageSize: '1K' });
+    expect(resolveGenerationOptions('pro', {})).toEqual({ model: PRO_MODEL, imageSize: '1K' });
+    expect(resolveGenerationOptions('ultra', {})).toEqual({ model: PRO_MODEL, imageSize: '2K' });
+  });
+
+  it('accepts sizes up to the tier maximum', () => {
+    expect(resolveGenerationOptions('pro', { imageSize: '2K' })).toEqual({ model: PRO_MODEL, imageSize: '2K' });
+    expect(resolveGenerationOptions('ultra', { imageSize: '4K' })).toEqual({ model: PRO_MODEL, imageSize: '4K' });
+  });
+
+  it('asks for an upgrade when the size exceeds the tier maximum', () => {
+    const free = resolveGenerationOptions('free', { imageSize: '2K' });
+    expect(free).toMatchObject({ status: 403 });
+    expect('error' in free && free.error).toContain('Pro 或 Ultra');
+
+    const pro = resolveGenerationOptions('pro', { imageSize: '4K' });
+    expect(pro).toMatchObject({ status: 403 });
+    expect('error' in pro && pro.error).toContain('Ultra');
+    expect('error' in pro && pro.error).not.toContain('Pro 或');
+  });
+
+  it('rejects unknown sizes', () => {
+    expect(resolveGenerationOptions('ultra', { imageSize: '8K' })).toMatchObject({ status: 400 });
+    expect(resolveGenerationOptions('ultra', { imageSize: '2k' })).toMatchObject({ status: 400 });
+  });
+
+  it('asks for an upgrade when the model is not available on the tier', () => {
+    const result = resolveGenerationOptions('free', { model: FLASH_MODEL });
+    expect(result).toMatchObject({ status: 403 });
+    expect('error' in result && result.error).toContain(FLASH_MODEL);
+  });
+
+  it('rejects unknown models', () => {
+    expect(resolveGenerationOptions('ultra', { model: 'imagen-1' })).toMatchObject({ status: 400 });
+  });
+
+  it('caps the default size at what the model can produce', () => {
+    expect(resolveGenerationOptions('ultra', { model: FLASH_MODEL })).toEqual({ model: FLASH_MODEL, imageSize: '1K' });
+  });
+
+  it('rejects sizes the model cannot produce instead of charging for them', () => {
+    expect(resolveGenerationOptions('ultra', { model: FLASH_MODEL, imageSize: '4K' })).toMatchObject({ status: 400 });
+    expect(resolveGenerationOptions('pro', { model: FLASH_MODEL, imageSize: '2K' })).toMatchObject({ status: 400 });
+    expect(resolveGenerationOptions('pro', { model: FLASH_MODEL, imageSize: '1K' }))
+      .toEqual({ model: FLASH_MODEL, imageSize: '1K' });
+  });
+});
@@ -0,0 +1,137 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { Miniflare } from 'miniflare';
+import worker from '../../src/index';
+import type { Env, QueueMessage, UserTier } from '../../src/types';
+
+const MIGRATIONS_DIR = new URL('../../migrations/', import.meta.url);
+
+// 1x1 PNG（只需通过格式与尺寸校验）
+export const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+export interface TestContext {
+  env: Env;
+  // 发往 GENERATION_QUEUE 的消息
+  queued: QueueMessage[];
+  dispose(): Promise<void>;
+}
+
+/**
+ * 基于 Miniflare 的 D1 / R2 / KV 创建测试环境，并执行全部迁移
+ * Durable Object 绑定替换为空实现，生图使用 stub 后端，队列消息只记录不处理
+ */
+export async function createTestContext(overrides: Partial<Env> = {}): Promise<TestContext> {
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch() { return new Response(null, { status: 404 }) } }',
+    d1Databases: ['DB'],
+    r2Buckets: ['R2'],
+    kvNamespaces: ['SESSION_KV']
+  });
+
+  const db = await mf.getD1Database('DB');
+  for (const file of readdirSync(MIGRATIONS_DIR).filter(f => f.endsWith('.sql')).sort()) {
+    for (const statement of splitStatements(readFileSync(new URL(file, MIGRATIONS_DIR), 'utf8'))) {
+      await db.prepare(statement).run();
+    }
+  }
+
+  const queued: QueueMessage[] = [];
+  const queue = {
+    send: async (body: QueueMessage) => { queued.push(body); },
+    sendBatch: async (messages: Array<{ body: QueueMessage }>) => { queued.push(...messages.map(m => m.body)); }
+  };
+
+  const env = {
+    DB: db,
+    R2: await mf.getR2Bucket('R2'),
+    SESSION_KV: await mf.getKVNamespace('SESSION_KV'),
+    GENERATION_QUEUE: queue,
+    TASK_MONITOR: stubNamespace(),
+    USER_CHANNEL: stubNamespace(),
+    IMAGE_PROVIDER: 'stub',
+    IMAGE_URL_SECRET: 'test-secret',
+    ...overrides
+  } as unknown as Env;
+
+  return { env, queued, dispose: () => mf.dispose() };
+}
+
+/**
+ * 创建用户并写入 session
+ * @returns 用户 ID 与可用于 Authorization: Bearer 的 token
+ */
+export async function createUser(
+  env: Env,
+  tier: UserTier = 'free',
+  role: 'user' | 'admin' = 'user'
+): Promise<{ userId: number; token: string }> {
+  // 随机 ID：限流计数按用户保存在模块内，不同测试的用户互不影响
+  const userId = 1 + Math.floor(Math.random() * 1_000_000_000);
+  const username = `user-${userId}`;
+  await env.DB.prepare(`
+    INSERT INTO users (id, username, password_hash, role, tier) VALUES (?, ?, 'x', ?, ?)
+  `).bind(userId, username, role, tier).run();
+
+  const token = crypto.randomUUID();
+  await env.SESSION_KV.put(`session:${token}`, JSON.stringify({
+    username,
+    userId,
+    role,
+    tier,
+    expiresAt: Math.floor(Date.now() / 1000) + 3600
+  }));
+  return { userId, token };
+}
+
+/**
+ * 通过 Worker 入口发送请求（waitUntil 中的后台任务在返回前执行完）
+ * 每个请求使用随机的客户端 IP，未登录请求不会互相限流
+ */
+export async function request(
+  env: Env,
+  method: string,
+  path: string,
+  options: { token?: string; body?: unknown; headers?: Record<string, string> } = {}
+): Promise<Response> {
+  const ip = `10.${randomOctet()}.${randomOctet()}.${randomOctet()}`;
+  const headers: Record<string, string> = { 'cf-connecting-ip': ip, ...options.headers };
+  if (options.token) headers.Authorization = `Bearer ${options.token}`;
+  if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+
+  const pending: Promise<unknown>[] = [];
+  const ctx = {
+    waitUntil: (promise: Promise<unknown>) => { pending.push(promise); },
+    passThroughOnException: () => {}
+  } as unknown as ExecutionContext;
+
+  const response = await worker.fetch(new Request(`https://example.com${path}`, {
+    method,
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+  }), env, ctx);
+  await Promise.all(pending);
+  return response;
+}
+
+function randomOctet(): number {
+  return Math.floor(Math.random() * 256);
+}
+
+// 迁移文件按语句拆分（迁移中没有触发器，分号只出现在语句结尾）
+function splitStatements(sql: string): string[] {
+  return sql
+    .split('\n')
+    .map(line => line.replace(/--.*$/, ''))
+    .join('\n')
+    .split(';')
+    .map(statement => statement.trim())
+    .filter(Boolean);
+}
+
+// 只接受请求的 Durable Object（事件推送等）
+function stubNamespace(): DurableObjectNamespace {
+  return {
+    idFromName: (name: string) => name,
+    get: () => ({ fetch: async () => Response.json({}) })
+  } as unknown as DurableObjectNamespace;
+}
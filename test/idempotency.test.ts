@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { userDb } from '../src/db';
+import { createTestContext, createUser, PNG_BASE64, request } from './helpers/env';
+import type { TestContext } from './helpers/env';
+
+describe('Idempotency-Key', () => {
+  let t: TestContext;
+  let user: { userId: number; token: string };
+
+  beforeAll(async () => {
+    t = await createTestContext();
+  });
+
+  afterAll(async () => {
+    await t.dispose();
+  });
+
+  beforeEach(async () => {
+    user = await createUser(t.env);
+  });
+
+  const generate = (token: string, key: string | null, prompt = 'studio portrait') =>
+    request(t.env, 'POST', '/api/tasks/generate', {
+      token,
+      body: { imageBase64: PNG_BASE64, prompt },
+      headers: key ? { 'Idempotency-Key': key } : {}
+    });
+
+  async function taskCount(userId: number): Promise<number> {
+    const row = await t.env.DB.prepare('SELECT COUNT(*) AS n FROM tasks WHERE user_id = ?').bind(userId).first();
+    return row!.n as number;
+  }
+
+  it('replays the first response without creating another task or charging again', async () => {
+    const first = await generate(user.token, 'key-1');
+    const firstBody = await first.json() as { taskId: string };
+    expect(first.status).toBe(200);
+    expect(first.headers.get('Idempotent-Replayed')).toBeNull();
+
+    const replay = await generate(user.token, 'key-1');
+    expect(replay.status).toBe(200);
+    expect(replay.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await replay.json()).toEqual(firstBody);
+
+    expect(await taskCount(user.userId)).toBe(1);
+    expect((await userDb.getQuota(t.env.DB, user.userId))!.dailyUsed).toBe(1);
+    expect(t.queued.filter(message => message.taskId === firstBody.taskId)).toHaveLength(1);
+  });
+
+  it('rejects reusing a key for a different request', async () => {
+    await generate(user.token, 'key-2');
+    const response = await generate(user.token, 'key-2', 'another prompt');
+
+    expect(response.status).toBe(422);
+    expect(await taskCount(user.userId)).toBe(1);
+  });
+
+  it('scopes keys to the user', async () => {
+    const other = await createUser(t.env);
+    await generate(user.token, 'shared-key');
+    const response = await generate(other.token, 'shared-key');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Idempotent-Replayed')).toBeNull();
+    expect(await taskCount(other.userId)).toBe(1);
+  });
+
+  it('does not deduplicate requests without a key', async () => {
+    await generate(user.token, null);
+    await generate(user.token, null);
+    expect(await taskCount(user.userId)).toBe(2);
+  });
+
+  it('replays client errors for the same request', async () => {
+    const invalid = await request(t.env, 'POST', '/api/tasks/generate', {
+      token: user.token,
+      body: { prompt: 'missing image' },
+      headers: { 'Idempotency-Key': 'key-3' }
+    });
+    expect(invalid.status).toBe(400);
+
+    const replay = await request(t.env, 'POST', '/api/tasks/generate', {
+      token: user.token,
+      body: { prompt: 'missing image' },
+      headers: { 'Idempotency-Key': 'key-3' }
+    });
+    expect(replay.status).toBe(400);
+    expect(replay.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await taskCount(user.userId)).toBe(0);
+  });
+});
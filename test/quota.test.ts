@@ -0,0 +1,224 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { creditDb, taskDb, userDb } from '../src/db';
+import { failTask, processTask } from '../src/task_processor';
+import { createTestContext, createUser, PNG_BASE64, request } from './helpers/env';
+import type { TestContext } from './helpers/env';
+
+async function submit(t: TestContext, token: string): Promise<string> {
+  const response = await request(t.env, 'POST', '/api/tasks/generate', {
+    token,
+    body: { imageBase64: PNG_BASE64, prompt: 'studio portrait' }
+  });
+  expect(response.status).toBe(200);
+  return ((await response.json()) as { taskId: string }).taskId;
+}
+
+async function used(t: TestContext, userId: number): Promise<number> {
+  return (await userDb.getQuota(t.env.DB, userId))!.dailyUsed;
+}
+
+describe('quota reservation', () => {
+  let t: TestContext;
+  let user: { userId: number; token: string };
+
+  beforeAll(async () => {
+    t = await createTestContext();
+  });
+
+  afterAll(async () => {
+    await t.dispose();
+  });
+
+  beforeEach(async () => {
+    user = await createUser(t.env);
+  });
+
+  it('reserves the cost on submission and commits it once the image is saved', async () => {
+    const taskId = await submit(t, user.token);
+    expect(await taskDb.getQuotaReservation(t.env.DB, taskId)).toMatchObject({ units: 1, state: 'reserved' });
+    expect(await used(t, user.userId)).toBe(1);
+
+    expect(await processTask(t.env, taskId)).toBe(true);
+    expect((await taskDb.getById(t.env.DB, taskId))!.status).toBe('completed');
+    expect(await taskDb.getQuotaReservation(t.env.DB, taskId)).toMatchObject({ state: 'committed' });
+    expect(await used(t, user.userId)).toBe(1);
+  });
+
+  it('releases the reservation when the task fails', async () => {
+    const taskId = await submit(t, user.token);
+    await failTask(t.env, taskId, 'boom');
+
+    expect(await taskDb.getQuotaReservation(t.env.DB, taskId)).toMatchObject({ state: 'released' });
+    expect(await used(t, user.userId)).toBe(0);
+
+    // 重复释放不会重复退还
+    expect(await taskDb.releaseQuota(t.env.DB, taskId)).toBe(false);
+    expect(await used(t, user.userId)).toBe(0);
+  });
+
+  it('releases the reservation when a pending task is cancelled', async () => {
+    const taskId = await submit(t, user.token);
+    const response = await request(t.env, 'POST', `/api/tasks/${taskId}/cancel`, { token: user.token });
+
+    expect(response.status).toBe(200);
+    expect((await taskDb.getById(t.env.DB, taskId))!.status).toBe('cancelled');
+    expect(await used(t, user.userId)).toBe(0);
+  });
+
+  it('refuses to cancel a task that is already processing', async () => {
+    const taskId = await submit(t, user.token);
+    expect(await taskDb.startProcessing(t.env.DB, taskId)).toBe(true);
+
+    const response = await request(t.env, 'POST', `/api/tasks/${taskId}/cancel`, { token: user.token });
+    expect(response.status).toBe(400);
+    expect((await taskDb.getById(t.env.DB, taskId))!.status).toBe('processing');
+    expect(await taskDb.getQuotaReservation(t.env.DB, taskId)).toMatchObject({ state: 'reserved' });
+    expect(await used(t, user.userId)).toBe(1);
+  });
+
+  it('does not complete a task that is no longer processing', async () => {
+    const taskId = await submit(t, user.token);
+    expect(await taskDb.complete(t.env.DB, taskId, { success: true })).toBe(false);
+
+    await request(t.env, 'POST', `/api/tasks/${taskId}/cancel`, { token: user.token });
+    expect(await taskDb.complete(t.env.DB, taskId, { success: true })).toBe(false);
+    expect((await taskDb.getById(t.env.DB, taskId))!.status).toBe('cancelled');
+  });
+
+  it('rejects submissions once the daily quota is used up', async () => {
+    for (let i = 0; i < 5; i++) {
+      await submit(t, user.token);
+    }
+    const response = await request(t.env, 'POST', '/api/tasks/generate', {
+      token: user.token,
+      body: { imageBase64: PNG_BASE64, prompt: 'studio portrait' }
+    });
+    expect(response.status).toBe(403);
+    expect(await used(t, user.userId)).toBe(5);
+  });
+});
+
+describe('credit ledger', () => {
+  let t: TestContext;
+  let user: { userId: number; token: string };
+
+  beforeAll(async () => {
+    t = await createTestContext();
+  });
+
+  afterAll(async () => {
+    await t.dispose();
+  });
+
+  beforeEach(async () => {
+    user = await createUser(t.env);
+  });
+
+  async function entries(kind: string) {
+    return (await creditDb.getTransactions(t.env.DB, user.userId, 100)).filter(entry => entry.kind === kind);
+  }
+
+  it('grants the daily allowance only once per day', async () => {
+    await userDb.getQuota(t.env.DB, user.userId);
+    await creditDb.ensureDailyGrant(t.env.DB, user.userId, 'free', creditDb.today());
+    await userDb.getQuota(t.env.DB, user.userId);
+
+    expect(await entries('grant')).toHaveLength(1);
+    expect(await userDb.getQuota(t.env.DB, user.userId)).toMatchObject({ dailyUsed: 0, remaining: 5, balance: 5 });
+  });
+
+  it('records one debit per task and refunds it only once', async () => {
+    const taskId = await submit(t, user.token);
+    await failTask(t.env, taskId, 'boom');
+    await failTask(t.env, taskId, 'boom again');
+    await taskDb.releaseQuota(t.env.DB, taskId);
+
+    expect(await entries('debit')).toMatchObject([{ amount: -1, taskId }]);
+    expect(await entries('refund')).toMatchObject([{ amount: 1, taskId, reason: 'task_failed' }]);
+    expect(await userDb.getQuota(t.env.DB, user.userId)).toMatchObject({ dailyUsed: 0, balance: 5 });
+  });
+
+  it('exposes the balance and recent transactions on /api/user/quota', async () => {
+    const taskId = await submit(t, user.token);
+    const response = await request(t.env, 'GET', '/api/user/quota', { token: user.token });
+    const body = await response.json() as { balance: number; transactions: Array<{ kind: string; taskId: string | null }> };
+
+    expect(body.balance).toBe(4);
+    expect(body.transactions.map(entry => entry.kind)).toEqual(['debit', 'grant']);
+    expect(body.transactions[0].taskId).toBe(taskId);
+  });
+});
+
+describe('batch quota delegation', () => {
+  let t: TestContext;
+  let user: { userId: number; token: string };
+
+  beforeAll(async () => {
+    t = await createTestContext();
+  });
+
+  afterAll(async () => {
+    await t.dispose();
+  });
+
+  beforeEach(async () => {
+    user = await createUser(t.env, 'pro');
+  });
+
+  async function submitBatch(count: number): Promise<string> {
+    const response = await request(t.env, 'POST', '/api/tasks/batch', {
+      token: user.token,
+      body: {
+        imageBase64: PNG_BASE64,
+        basePrompt: 'portrait in {color}',
+        combinations: Array.from({ length: count }, (_, i) => ({ color: `color-${i}` }))
+      }
+    });
+    expect(response.status).toBe(200);
+    return ((await response.json()) as { taskId: string }).taskId;
+  }
+
+  it('hands the reservation over to the subtasks', async () => {
+    const parentId = await submitBatch(3);
+    expect(await taskDb.getQuotaReservation(t.env.DB, parentId)).toMatchObject({ units: 3, state: 'reserved' });
+
+    expect(await processTask(t.env, parentId)).toBe(true);
+    const parent = await taskDb.getById(t.env.DB, parentId);
+    expect(parent!.status).toBe('completed');
+    expect(await taskDb.getQuotaReservation(t.env.DB, parentId)).toMatchObject({ state: 'delegated' });
+
+    const subTasks = await taskDb.getByBatchId(t.env.DB, parent!.outputData!.batchId as string);
+    expect(subTasks).toHaveLength(3);
+    for (const subTask of subTasks) {
+      expect(await taskDb.getQuotaReservation(t.env.DB, subTask.id)).toMatchObject({ units: 1, state: 'reserved' });
+    }
+    expect(t.queued.filter(message => subTasks.some(subTask => subTask.id === message.taskId))).toHaveLength(3);
+
+    // 子任务各自退还，父任务不再退还
+    await failTask(t.env, subTasks[0].id, 'boom');
+    await failTask(t.env, parentId, 'late failure');
+    expect(await used(t, user.userId)).toBe(2);
+  });
+
+  it('refunds the whole reservation when the subtasks cannot be created', async () => {
+    const parentId = await submitBatch(2);
+    // 让第一次批量写入（创建子任务并转移预留）失败
+    let failed = false;
+    const db = {
+      prepare: (query: string) => t.env.DB.prepare(query),
+      batch: async (statements: D1PreparedStatement[]) => {
+        if (failed) return t.env.DB.batch(statements);
+        failed = true;
+        throw new Error('D1 unavailable');
+      }
+    } as unknown as D1Database;
+    expect(await processTask({ ...t.env, DB: db }, parentId)).toBe(false);
+
+    expect((await taskDb.getById(t.env.DB, parentId))!.status).toBe('failed');
+    expect(await taskDb.getQuotaReservation(t.env.DB, parentId)).toMatchObject({ state: 'released' });
+    const members = await t.env.DB.prepare('SELECT COUNT(*) AS n FROM tasks WHERE user_id = ? AND batch_id IS NOT NULL')
+      .bind(user.userId).first();
+    expect(members!.n).toBe(0);
+    expect(await used(t, user.userId)).toBe(0);
+  });
+});
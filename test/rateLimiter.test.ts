@@ -0,0 +1,122 @@
+import { Hono } from 'hono';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from '../src/do/RateLimiter';
+import { rateLimit } from '../src/rateLimit';
+import type { RateLimitCheck, RateLimitResult } from '../src/do/RateLimiter';
+import type { Env } from '../src/types';
+import { createState } from './shims/cloudflare-workers';
+
+const NOW = Date.UTC(2026, 0, 1);
+const RULE: RateLimitCheck = { rule: 'POST /api/tasks/generate', limit: 3, windowMs: 60_000 };
+
+async function check(limiter: RateLimiter, body: RateLimitCheck = RULE): Promise<RateLimitResult> {
+  const response = await limiter.fetch(new Request('http://do/check', { method: 'POST', body: JSON.stringify(body) }));
+  return response.json();
+}
+
+describe('RateLimiter', () => {
+  let state: ReturnType<typeof createState>;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    state = createState();
+    limiter = new RateLimiter(state, {} as Env);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows requests up to the limit and counts down the remaining quota', async () => {
+    expect(await check(limiter)).toEqual({ allowed: true, limit: 3, remaining: 2, resetMs: 60_000, retryAfterMs: 0 });
+    expect(await check(limiter)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await check(limiter)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('rejects once the window is full and reports when the oldest request expires', async () => {
+    await check(limiter);
+    vi.setSystemTime(NOW + 10_000);
+    await check(limiter);
+    await check(limiter);
+
+    vi.setSystemTime(NOW + 20_000);
+    expect(await check(limiter)).toEqual({ allowed: false, limit: 3, remaining: 0, resetMs: 40_000, retryAfterMs: 40_000 });
+  });
+
+  it('slides the window instead of resetting it at fixed intervals', async () => {
+    await check(limiter);
+    vi.setSystemTime(NOW + 30_000);
+    await check(limiter);
+    await check(limiter);
+
+    // 第一次请求过期，释放一个名额；后两次仍在窗口内
+    vi.setSystemTime(NOW + 60_001);
+    expect(await check(limiter)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await check(limiter)).toMatchObject({ allowed: false, retryAfterMs: 29_999 });
+  });
+
+  it('does not count rejected requests against the window', async () => {
+    for (let i = 0; i < 3; i++) await check(limiter);
+    for (let i = 0; i < 5; i++) await check(limiter);
+
+    vi.setSystemTime(NOW + 60_001);
+    expect(await check(limiter)).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('keeps separate windows per rule', async () => {
+    for (let i = 0; i < 3; i++) await check(limiter);
+    expect(await check(limiter)).toMatchObject({ allowed: false });
+    expect(await check(limiter, { ...RULE, rule: 'GET /api/user/history' })).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('persists the log so a new instance sees earlier requests', async () => {
+    for (let i = 0; i < 3; i++) await check(limiter);
+    const restarted = new RateLimiter(state, {} as Env);
+    expect(await check(restarted)).toMatchObject({ allowed: false });
+  });
+
+  it('prunes expired entries on alarm and clears storage once idle', async () => {
+    await check(limiter);
+    vi.setSystemTime(NOW + 30_000);
+    await check(limiter, { ...RULE, rule: 'GET /api/user/history', windowMs: 120_000 });
+    expect(state.alarmAt()).toBe(NOW + 30_000 + 120_000);
+
+    vi.setSystemTime(NOW + 60_001);
+    await limiter.alarm();
+    expect(Object.keys(state.stored.get('windows') as object)).toEqual(['GET /api/user/history']);
+    expect(state.alarmAt()).toBe(NOW + 30_000 + 120_000);
+
+    vi.setSystemTime(NOW + 150_001);
+    await limiter.alarm();
+    expect(state.stored.size).toBe(0);
+    expect(await check(limiter)).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('returns 404 for unknown routes', async () => {
+    const response = await limiter.fetch(new Request('http://do/state'));
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('rateLimit middleware', () => {
+  it('counts anonymous requests by client IP regardless of API key headers', async () => {
+    const app = new Hono<{ Bindings: Env }>();
+    app.post('/api/limited', rateLimit(2, 60_000), c => c.json({ ok: true }));
+
+    const send = (apiKey: string, ip = '203.0.113.7') => app.request('/api/limited', {
+      method: 'POST',
+      headers: { 'cf-connecting-ip': ip, 'x-goog-api-key': apiKey }
+    }, {} as Env);
+
+    expect((await send('key-1')).status).toBe(200);
+    expect((await send('key-2')).status).toBe(200);
+    // 换一个 key 不会得到新的额度
+    const limited = await send('key-3');
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).not.toBeNull();
+
+    expect((await send('key-1', '198.51.100.1')).status).toBe(200);
+  });
+});
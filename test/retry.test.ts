@@ -0,0 +1,118 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { creditDb, taskDb, userDb } from '../src/db';
+import { failTask, processTask } from '../src/task_processor';
+import type { Task } from '../src/types';
+import { createTestContext, createUser, PNG_BASE64, request } from './helpers/env';
+import type { TestContext } from './helpers/env';
+
+describe('retrying failed tasks', () => {
+  let t: TestContext;
+  let user: { userId: number; token: string };
+
+  beforeAll(async () => {
+    t = await createTestContext();
+  });
+
+  afterAll(async () => {
+    await t.dispose();
+  });
+
+  beforeEach(async () => {
+    user = await createUser(t.env, 'pro');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const used = async () => (await userDb.getQuota(t.env.DB, user.userId))!.dailyUsed;
+
+  async function failedTask(): Promise<string> {
+    const response = await request(t.env, 'POST', '/api/tasks/generate', {
+      token: user.token,
+      body: { imageBase64: PNG_BASE64, prompt: 'studio portrait' }
+    });
+    const { taskId } = await response.json() as { taskId: string };
+    await failTask(t.env, taskId, 'boom');
+    return taskId;
+  }
+
+  // 创建批次，让前 failedCount 个成员失败
+  async function batchWithFailures(count: number, failedCount: number): Promise<{ batchId: string; members: Task[] }> {
+    const response = await request(t.env, 'POST', '/api/tasks/batch', {
+      token: user.token,
+      body: {
+        imageBase64: PNG_BASE64,
+        basePrompt: 'portrait {n}',
+        combinations: Array.from({ length: count }, (_, i) => ({ n: String(i) }))
+      }
+    });
+    const { taskId } = await response.json() as { taskId: string };
+    await processTask(t.env, taskId);
+
+    const batchId = (await taskDb.getById(t.env.DB, taskId))!.outputData!.batchId as string;
+    const members = await taskDb.getByBatchId(t.env.DB, batchId);
+    for (const member of members.slice(0, failedCount)) {
+      await failTask(t.env, member.id, 'boom');
+    }
+    return { batchId, members };
+  }
+
+  it('charges a retry again and only allows one retry per task', async () => {
+    const taskId = await failedTask();
+    expect(await used()).toBe(0);
+
+    const response = await request(t.env, 'POST', `/api/tasks/${taskId}/retry`, { token: user.token });
+    const body = await response.json() as { taskId: string; retryOf: string };
+    expect(response.status).toBe(200);
+    expect(body.retryOf).toBe(taskId);
+    expect(await taskDb.getQuotaReservation(t.env.DB, body.taskId)).toMatchObject({ units: 1, state: 'reserved' });
+    expect(await used()).toBe(1);
+
+    const again = await request(t.env, 'POST', `/api/tasks/${taskId}/retry`, { token: user.token });
+    expect(again.status).toBe(409);
+    expect(await used()).toBe(1);
+  });
+
+  it('refuses to retry tasks that have not failed', async () => {
+    const { members } = await batchWithFailures(1, 0);
+    const response = await request(t.env, 'POST', `/api/tasks/${members[0].id}/retry`, { token: user.token });
+    expect(response.status).toBe(400);
+  });
+
+  it('refunds the charge when the retry task cannot be created', async () => {
+    const taskId = await failedTask();
+    vi.spyOn(taskDb, 'createRetry').mockResolvedValueOnce(null);
+
+    const response = await request(t.env, 'POST', `/api/tasks/${taskId}/retry`, { token: user.token });
+    expect(response.status).toBe(500);
+    expect(await used()).toBe(0);
+  });
+
+  it('retries every failed member of a batch and charges each of them', async () => {
+    const { batchId, members } = await batchWithFailures(3, 2);
+    expect(await used()).toBe(1);
+
+    const response = await request(t.env, 'POST', `/api/tasks/batch/${batchId}/retry-failed`, { token: user.token });
+    const body = await response.json() as { retried: number; taskIds: string[] };
+    expect(body.retried).toBe(2);
+    expect(await used()).toBe(3);
+
+    // 重试结果合并到原批次，取代失败的成员
+    const current = await taskDb.getByBatchId(t.env.DB, batchId);
+    expect(current.map(task => task.id).sort()).toEqual([members[2].id, ...body.taskIds].sort());
+  });
+
+  it('refunds members whose retry could not be created', async () => {
+    const { batchId } = await batchWithFailures(3, 3);
+    vi.spyOn(taskDb, 'createRetry').mockResolvedValueOnce(null);
+
+    const response = await request(t.env, 'POST', `/api/tasks/batch/${batchId}/retry-failed`, { token: user.token });
+    expect(await response.json()).toMatchObject({ retried: 2 });
+    expect(await used()).toBe(2);
+
+    const refunds = (await creditDb.getTransactions(t.env.DB, user.userId, 100))
+      .filter(entry => entry.reason === 'task_not_created');
+    expect(refunds).toMatchObject([{ kind: 'refund', amount: 1 }]);
+  });
+});
@@ -0,0 +1,32 @@
+// Workers 运行时中 DurableObject 基类的最小实现：只保存 ctx 与 env
+export class DurableObject<Env = unknown> {
+  protected ctx: DurableObjectState;
+  protected env: Env;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    this.ctx = ctx;
+    this.env = env;
+  }
+}
+
+/**
+ * 内存版 DurableObjectState：只实现测试用到的 storage 方法
+ */
+export function createState(): DurableObjectState & { alarmAt: () => number | null; stored: Map<string, unknown> } {
+  const stored = new Map<string, unknown>();
+  let alarm: number | null = null;
+
+  const storage = {
+    get: async (key: string) => structuredClone(stored.get(key)),
+    put: async (key: string, value: unknown) => { stored.set(key, structuredClone(value)); },
+    deleteAll: async () => { stored.clear(); alarm = null; },
+    setAlarm: async (time: number) => { alarm = time; },
+    getAlarm: async () => alarm
+  };
+
+  return {
+    storage,
+    stored,
+    alarmAt: () => alarm
+  } as unknown as DurableObjectState & { alarmAt: () => number | null; stored: Map<string, unknown> };
+}
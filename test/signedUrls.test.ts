@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createUrlSigner, isPrivateImageKey, ownerOfKey, revokeSignedUrls, signImageFields, verifySignedUrl
+} from '../src/signedUrls';
+import type { Env } from '../src/types';
+
+const KEY = 'generated/42/abc.png';
+// 2026-01-01T00:00:00Z，恰好落在 5 分钟边界上
+const NOW = Date.UTC(2026, 0, 1);
+
+function createEnv(overrides: Partial<Env> = {}): Env {
+  const store = new Map<string, string>();
+  return {
+    IMAGE_URL_SECRET: 'test-secret',
+    SESSION_KV: {
+      get: async (key: string) => store.get(key) ?? null,
+      put: async (key: string, value: string) => { store.set(key, value); }
+    },
+    ...overrides
+  } as unknown as Env;
+}
+
+function paramsOf(url: string): { exp: string; v: string; sig: string } {
+  const query = new URL(url, 'https://example.com').searchParams;
+  return { exp: query.get('exp')!, v: query.get('v')!, sig: query.get('sig')! };
+}
+
+describe('private keys', () => {
+  it('only treats generated/{userId}/ paths as private', () => {
+    expect(ownerOfKey(KEY)).toBe('42');
+    expect(isPrivateImageKey(KEY)).toBe(true);
+    expect(isPrivateImageKey('generated/')).toBe(false);
+    expect(isPrivateImageKey('assets/logo.png')).toBe(false);
+  });
+});
+
+describe('signed URLs', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('signs private paths and leaves other URLs untouched', async () => {
+    const signer = createUrlSigner(createEnv());
+    expect(await signer.sign('/r2/assets/logo.png')).toBe('/r2/assets/logo.png');
+    expect(await signer.sign('https://cdn.example.com/x.png')).toBe('https://cdn.example.com/x.png');
+    expect(await signer.sign(`/r2/${KEY}`)).toMatch(/^\/r2\/generated\/42\/abc\.png\?exp=\d+&v=0&sig=[\w-]+$/);
+  });
+
+  it('aligns expiry to 5-minute buckets so links issued in the same bucket are identical', async () => {
+    const env = createEnv({ SIGNED_URL_TTL: '3600' });
+    const first = await createUrlSigner(env).sign(`/r2/${KEY}`);
+    expect(Number(paramsOf(first).exp)).toBe(NOW / 1000 + 3600);
+
+    vi.setSystemTime(NOW + 60_000);
+    const second = await createUrlSigner(env).sign(`/r2/${KEY}`);
+    expect(second).not.toBe(first);
+    expect(Number(paramsOf(second).exp)).toBe(NOW / 1000 + 3600 + 300);
+
+    vi.setSystemTime(NOW + 299_000);
+    expect(await createUrlSigner(env).sign(`/r2/${KEY}`)).toBe(second);
+  });
+
+  it('verifies a freshly signed link', async () => {
+    const env = createEnv();
+    const url = await createUrlSigner(env).sign(`/r2/${KEY}`);
+    expect(await verifySignedUrl(env, KEY, paramsOf(url))).toEqual({ valid: true });
+  });
+
+  it('rejects a link after it expires', async () => {
+    const env = createEnv({ SIGNED_URL_TTL: '600' });
+    const params = paramsOf(await createUrlSigner(env).sign(`/r2/${KEY}`));
+
+    vi.setSystemTime(Number(params.exp) * 1000);
+    expect(await verifySignedUrl(env, KEY, params)).toEqual({ valid: true });
+
+    vi.setSystemTime(Number(params.exp) * 1000 + 1000);
+    expect(await verifySignedUrl(env, KEY, params)).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('rejects tampered signatures, expiry, versions and keys', async () => {
+    const env = createEnv();
+    const params = paramsOf(await createUrlSigner(env).sign(`/r2/${KEY}`));
+    const flipped = (params.sig[0] === 'A' ? 'B' : 'A') + params.sig.slice(1);
+
+    expect(await verifySignedUrl(env, KEY, { ...params, sig: flipped })).toEqual({ valid: false, reason: 'invalid' });
+    expect(await verifySignedUrl(env, KEY, { ...params, exp: String(Number(params.exp) + 300) }))
+      .toEqual({ valid: false, reason: 'invalid' });
+    expect(await verifySignedUrl(env, KEY, { ...params, v: '1' })).toEqual({ valid: false, reason: 'invalid' });
+    expect(await verifySignedUrl(env, 'generated/43/abc.png', params)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('rejects links signed with a different secret', async () => {
+    const params = paramsOf(await createUrlSigner(createEnv({ IMAGE_URL_SECRET: 'other' })).sign(`/r2/${KEY}`));
+    expect(await verifySignedUrl(createEnv(), KEY, params)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('revokes every link of a user when the KV version is bumped', async () => {
+    const env = createEnv();
+    const before = paramsOf(await createUrlSigner(env).sign(`/r2/${KEY}`));
+    const otherUser = 'generated/7/def.png';
+    const otherParams = paramsOf(await createUrlSigner(env).sign(`/r2/${otherUser}`));
+
+    expect(await revokeSignedUrls(env, 42)).toBe(1);
+    expect(await verifySignedUrl(env, KEY, before)).toEqual({ valid: false, reason: 'revoked' });
+    // 其他用户的链接不受影响
+    expect(await verifySignedUrl(env, otherUser, otherParams)).toEqual({ valid: true });
+
+    const after = paramsOf(await createUrlSigner(env).sign(`/r2/${KEY}`));
+    expect(after.v).toBe('1');
+    expect(await verifySignedUrl(env, KEY, after)).toEqual({ valid: true });
+  });
+
+  it('rejects unsigned access to private keys', async () => {
+    const env = createEnv();
+    expect(await verifySignedUrl(env, KEY, {})).toEqual({ valid: false, reason: 'missing' });
+    expect(await verifySignedUrl(env, KEY, { exp: String(NOW / 1000 + 600), v: '0' }))
+      .toEqual({ valid: false, reason: 'missing' });
+  });
+
+  it('never validates public keys, even with a signature', async () => {
+    const env = createEnv();
+    const params = paramsOf(await createUrlSigner(env).sign(`/r2/${KEY}`));
+    expect(await verifySignedUrl(env, 'assets/logo.png', params)).toEqual({ valid: false, reason: 'missing' });
+  });
+
+  it('returns unsigned URLs when the signing secret is missing', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const signer = createUrlSigner(createEnv({ IMAGE_URL_SECRET: '' }));
+    expect(await signer.sign(`/r2/${KEY}`)).toBe(`/r2/${KEY}`);
+    expect(await signer.sign('/r2/generated/7/def.png')).toBe('/r2/generated/7/def.png');
+    // 同一签名器只记录一次
+    expect(error).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+
+  it('refuses to verify links when the signing secret is missing', async () => {
+    const params = paramsOf(await createUrlSigner(createEnv()).sign(`/r2/${KEY}`));
+    await expect(verifySignedUrl(createEnv({ IMAGE_URL_SECRET: '' }), KEY, params)).rejects.toThrow('IMAGE_URL_SECRET');
+  });
+
+  it('signs every image field of a record', async () => {
+    const signer = createUrlSigner(createEnv());
+    const signed = await signImageFields(signer, {
+      id: 'abc',
+      url: `/r2/${KEY}`,
+      thumbnailUrl: '/r2/generated/42/abc_thumb.webp',
+      mediumUrl: null,
+      prompt: `/r2/${KEY}`
+    });
+    expect(signed.url).toContain('sig=');
+    expect(signed.thumbnailUrl).toContain('sig=');
+    expect(signed.mediumUrl).toBeNull();
+    expect(signed.prompt).toBe(`/r2/${KEY}`);
+  });
+});
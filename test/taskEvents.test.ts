@@ -0,0 +1,93 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { processTask } from '../src/task_processor';
+import { createTestContext, createUser, PNG_BASE64, request } from './helpers/env';
+import type { TestContext } from './helpers/env';
+
+interface Timeline {
+  task: { id: string; status: string; attempts: number };
+  events: Array<{ type: string; status: string | null; attempt: number | null; latencyMs: number | null; errorClass: string | null; data: Record<string, unknown> }>;
+}
+
+describe('task audit timeline', () => {
+  let t: TestContext;
+  let user: { userId: number; token: string };
+
+  beforeAll(async () => {
+    t = await createTestContext();
+  });
+
+  afterAll(async () => {
+    await t.dispose();
+  });
+
+  beforeEach(async () => {
+    user = await createUser(t.env);
+  });
+
+  async function submit(): Promise<string> {
+    const response = await request(t.env, 'POST', '/api/tasks/generate', {
+      token: user.token,
+      body: { imageBase64: PNG_BASE64, prompt: 'studio portrait' }
+    });
+    return ((await response.json()) as { taskId: string }).taskId;
+  }
+
+  async function timeline(taskId: string): Promise<Timeline> {
+    const response = await request(t.env, 'GET', `/api/tasks/${taskId}/events`, { token: user.token });
+    expect(response.status).toBe(200);
+    return response.json();
+  }
+
+  it('records each state change and upstream call of a completed task', async () => {
+    const taskId = await submit();
+    await processTask(t.env, taskId);
+
+    const { task, events } = await timeline(taskId);
+    expect(task).toMatchObject({ id: taskId, status: 'completed' });
+
+    const types = events.map(event => event.type);
+    expect(types[0]).toBe('created');
+    expect(types[1]).toBe('started');
+    expect(types).toContain('upstream_call');
+    expect(types[types.length - 1]).toBe('completed');
+
+    expect(events[1]).toMatchObject({ status: 'processing', attempt: 1 });
+    const upstream = events.find(event => event.type === 'upstream_call')!;
+    expect(upstream.errorClass).toBeNull();
+    expect(upstream.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(upstream.data).toMatchObject({ provider: 'stub' });
+  });
+
+  it('records the error class of a failed task', async () => {
+    const taskId = await submit();
+    // 参考图丢失：不可重试的错误，任务直接失败
+    const listed = await t.env.R2.list({ prefix: 'inputs/' });
+    for (const object of listed.objects) {
+      await t.env.R2.delete(object.key);
+    }
+    await processTask(t.env, taskId);
+
+    const { events } = await timeline(taskId);
+    expect(events[events.length - 1]).toMatchObject({ type: 'failed', status: 'failed', attempt: 1 });
+    expect(events[events.length - 1].errorClass).not.toBeNull();
+  });
+
+  it('only lets the owner read the timeline', async () => {
+    const taskId = await submit();
+    const other = await createUser(t.env);
+    const response = await request(t.env, 'GET', `/api/tasks/${taskId}/events`, { token: other.token });
+    expect(response.status).toBe(403);
+  });
+
+  it('accepts a query token only for event streams', async () => {
+    const taskId = await submit();
+
+    const viaQuery = await request(t.env, 'GET', `/api/tasks/${taskId}/events?token=${user.token}`);
+    expect(viaQuery.status).toBe(401);
+
+    const streamWithoutToken = await request(t.env, 'GET', `/api/tasks/${taskId}/events`, {
+      headers: { Accept: 'text/event-stream' }
+    });
+    expect(streamWithoutToken.status).toBe(401);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { sniffBase64MimeType, sniffImage, sniffMimeType, validateUpload } from '../src/uploads';
+import { TIER_CONFIGS } from '../src/types';
+
+function bytes(...parts: Array<number[] | string>): Uint8Array {
+  const out: number[] = [];
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      for (const ch of part) out.push(ch.charCodeAt(0));
+    } else {
+      out.push(...part);
+    }
+  }
+  return new Uint8Array(out);
+}
+
+const u32be = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const u16be = (n: number) => [(n >> 8) & 0xff, n & 0xff];
+const u16le = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+const u24le = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff];
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function png(width: number, height: number): Uint8Array {
+  return bytes(PNG_SIGNATURE, u32be(13), 'IHDR', u32be(width), u32be(height), [8, 6, 0, 0, 0]);
+}
+
+// SOI + APP0 + 指定的 SOF 段
+function jpeg(width: number, height: number, sofMarker = 0xc0): Uint8Array {
+  return bytes(
+    [0xff, 0xd8],
+    [0xff, 0xe0], u16be(16), 'JFIF', [0, 1, 1, 0, 0, 1, 0, 1, 0, 0],
+    [0xff, sofMarker], u16be(17), [8], u16be(height), u16be(width), [3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]
+  );
+}
+
+function riff(chunk: string, payload: number[]): Uint8Array {
+  return bytes('RIFF', [0, 0, 0, 0], 'WEBP', chunk, [0, 0, 0, 0], payload);
+}
+
+function webpLossy(width: number, height: number): Uint8Array {
+  // 帧标签(3) + 起始码(3) + 14 位宽高
+  return riff('VP8 ', [0, 0, 0, 0x9d, 0x01, 0x2a, ...u16le(width), ...u16le(height)]);
+}
+
+function webpLossless(width: number, height: number): Uint8Array {
+  const w = width - 1, h = height - 1;
+  return riff('VP8L', [
+    0x2f,
+    w & 0xff,
+    ((w >> 8) & 0x3f) | ((h & 0x03) << 6),
+    (h >> 2) & 0xff,
+    (h >> 10) & 0x0f,
+    0, 0, 0, 0, 0
+  ]);
+}
+
+function webpExtended(width: number, height: number): Uint8Array {
+  return riff('VP8X', [0x10, 0, 0, 0, ...u24le(width - 1), ...u24le(height - 1)]);
+}
+
+describe('sniffMimeType', () => {
+  it('recognises each format by its magic bytes', () => {
+    expect(sniffMimeType(png(1, 1))).toBe('image/png');
+    expect(sniffMimeType(jpeg(1, 1))).toBe('image/jpeg');
+    expect(sniffMimeType(webpLossy(1, 1))).toBe('image/webp');
+  });
+
+  it('rejects other files and headers that are too short', () => {
+    expect(sniffMimeType(bytes('GIF89a'))).toBeNull();
+    expect(sniffMimeType(bytes(PNG_SIGNATURE.slice(0, 7)))).toBeNull();
+    expect(sniffMimeType(bytes([0xff, 0xd8]))).toBeNull();
+    expect(sniffMimeType(bytes('RIFF', [0, 0, 0, 0], 'WEB'))).toBeNull();
+    expect(sniffMimeType(new Uint8Array())).toBeNull();
+  });
+
+  it('sniffs base64 input and falls back for unknown data', () => {
+    const base64 = btoa(String.fromCharCode(...png(2, 2)));
+    expect(sniffBase64MimeType(base64)).toBe('image/png');
+    expect(sniffBase64MimeType(btoa('plain text here'))).toBe('image/jpeg');
+    expect(sniffBase64MimeType('%%%not base64%%%', 'image/png')).toBe('image/png');
+  });
+});
+
+describe('sniffImage', () => {
+  it('reads PNG dimensions from IHDR', () => {
+    expect(sniffImage(png(1024, 768))).toEqual({ mimeType: 'image/png', width: 1024, height: 768 });
+  });
+
+  it('rejects a truncated PNG header', () => {
+    expect(sniffImage(png(1024, 768).subarray(0, 20))).toBeNull();
+  });
+
+  it('rejects a PNG whose first chunk is not IHDR', () => {
+    const data = png(10, 10);
+    data.set([0x49, 0x44, 0x41, 0x54], 12); // IDAT
+    expect(sniffImage(data)).toBeNull();
+  });
+
+  it('reads JPEG dimensions from the first SOF segment', () => {
+    expect(sniffImage(jpeg(640, 480))).toEqual({ mimeType: 'image/jpeg', width: 640, height: 480 });
+    expect(sniffImage(jpeg(1920, 1080, 0xc2))).toEqual({ mimeType: 'image/jpeg', width: 1920, height: 1080 });
+  });
+
+  it('skips fill bytes before a marker', () => {
+    const data = jpeg(300, 200);
+    const padded = bytes([...data.subarray(0, 20)], [0xff, 0xff], [...data.subarray(20)]);
+    expect(sniffImage(padded)).toEqual({ mimeType: 'image/jpeg', width: 300, height: 200 });
+  });
+
+  it('does not mistake DHT for a frame header', () => {
+    const data = bytes(
+      [0xff, 0xd8],
+      [0xff, 0xc4], u16be(12), [0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+      [...jpeg(800, 600).subarray(2)]
+    );
+    expect(sniffImage(data)).toEqual({ mimeType: 'image/jpeg', width: 800, height: 600 });
+  });
+
+  it('returns null for a JPEG without any SOF marker', () => {
+    const data = bytes(
+      [0xff, 0xd8],
+      [0xff, 0xe0], u16be(16), 'JFIF', [0, 1, 1, 0, 0, 1, 0, 1, 0, 0],
+      [0xff, 0xdb], u16be(10), [0, 0, 0, 0, 0, 0, 0, 0],
+      [0xff, 0xd9]
+    );
+    expect(sniffImage(data)).toBeNull();
+  });
+
+  it('returns null for a truncated or corrupt JPEG', () => {
+    const data = jpeg(640, 480);
+    // 段长度指向文件末尾之外
+    expect(sniffImage(data.subarray(0, 24))).toBeNull();
+    // 段之间缺少 0xFF
+    const corrupt = data.slice();
+    corrupt[20] = 0x00;
+    expect(sniffImage(corrupt)).toBeNull();
+  });
+
+  it('reads lossy, lossless and extended WebP dimensions', () => {
+    expect(sniffImage(webpLossy(400, 300))).toEqual({ mimeType: 'image/webp', width: 400, height: 300 });
+    expect(sniffImage(webpLossless(1000, 750))).toEqual({ mimeType: 'image/webp', width: 1000, height: 750 });
+    expect(sniffImage(webpExtended(5000, 3000))).toEqual({ mimeType: 'image/webp', width: 5000, height: 3000 });
+  });
+
+  it('reads the full 24-bit VP8X canvas size', () => {
+    expect(sniffImage(webpExtended(16384, 1))).toEqual({ mimeType: 'image/webp', width: 16384, height: 1 });
+  });
+
+  it('rejects truncated WebP headers and unknown chunks', () => {
+    expect(sniffImage(webpExtended(10, 10).subarray(0, 29))).toBeNull();
+    expect(sniffImage(riff('ALPH', new Array(14).fill(0)))).toBeNull();
+  });
+});
+
+describe('validateUpload', () => {
+  const free = TIER_CONFIGS.free.upload;
+
+  it('accepts an image within the tier limits', () => {
+    expect(validateUpload(png(free.maxDimension, 100), 'free')).toEqual({
+      info: { mimeType: 'image/png', width: free.maxDimension, height: 100 }
+    });
+  });
+
+  it('rejects empty uploads', () => {
+    expect(validateUpload(new Uint8Array(), 'free')).toMatchObject({ status: 400 });
+  });
+
+  it('rejects files over the byte limit before parsing them', () => {
+    const data = new Uint8Array(free.maxBytes + 1);
+    data.set(png(10, 10));
+    expect(validateUpload(data, 'free')).toMatchObject({ status: 413 });
+  });
+
+  it('rejects unsupported formats', () => {
+    expect(validateUpload(bytes('GIF89a', new Array(32).fill(0)), 'free')).toMatchObject({ status: 415 });
+  });
+
+  it('rejects images whose longest side exceeds the tier limit', () => {
+    expect(validateUpload(png(free.maxDimension + 1, 10), 'free')).toMatchObject({ status: 400 });
+    expect(validateUpload(jpeg(10, free.maxDimension + 1), 'free')).toMatchObject({ status: 400 });
+    expect(validateUpload(webpExtended(free.maxDimension + 1, 10), 'free')).toMatchObject({ status: 400 });
+  });
+
+  it('applies the higher limits of paid tiers', () => {
+    const size = TIER_CONFIGS.ultra.upload.maxDimension;
+    expect(validateUpload(png(size, size), 'ultra')).toHaveProperty('info');
+    expect(validateUpload(png(size, size), 'pro')).toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // 测试在 Node 中加载 Worker 与 Durable Object，用最小实现替代 Workers 运行时模块
+      'cloudflare:workers': fileURLToPath(new URL('./test/shims/cloudflare-workers.ts', import.meta.url))
+    }
+  },
+  test: {
+    include: ['test/**/*.test.ts']
+  }
+});